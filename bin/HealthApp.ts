@@ -1,23 +1,108 @@
 import * as cdk from 'aws-cdk-lib';
 import { PipelineStack } from '../lib/stacks/PipelineStack';
-import { DevStack } from '../lib/stacks/DevStack';
+import { EnvironmentStack } from '../lib/stacks/EnvironmentStack';
+import { EcsEnvironmentStack } from '../lib/stacks/EcsEnvironmentStack';
 import { S3Stack } from '../lib/stacks/S3Stack';
+import { DataStack, resolveDataBucketPhase } from '../lib/stacks/DataStack';
+import { EcrStack } from '../lib/stacks/EcrStack';
+import { SecretsStack } from '../lib/stacks/SecretsStack';
+import { PreviewStack } from '../lib/stacks/PreviewStack';
+import { PreviewEnvironmentStack } from '../lib/stacks/PreviewEnvironmentStack';
+import { SERVICES } from '../lib/config/services';
+import { APP_SECRETS } from '../lib/config/secrets';
+import { PIPELINE_NOTIFICATIONS } from '../lib/config/notifications';
+import { PREVIEW, previewStackName, resolvePreview } from '../lib/config/previews';
+import { ENVIRONMENTS, getEnvironmentConfig, resolveStages, stackPrefix } from '../lib/config/environments';
+import { TOOLING_ENV, addStandardTags } from '../lib/config/tags';
+import { applyHealthRules } from '../lib/aspects/HealthRules';
 
 const app = new cdk.App();
 
+// Shared tooling (deploy bucket + pipeline) lives alongside dev
+const toolingConfig = getEnvironmentConfig('dev');
+const toolingEnv = { account: toolingConfig.account, region: toolingConfig.region };
 
 const bucketStack = new S3Stack(app, 'S3Stack', {
-  env: { account: '774814055379', region: 'us-east-1' },
+  env: toolingEnv,
 });
 
-// Deploy DevStack separately (EC2 infra)
-new DevStack(app, 'HealthDevInfra', {
-  env: { account: '774814055379', region: 'us-east-1' },
+const dataStack = new DataStack(app, 'DataStack', {
+  env: toolingEnv,
+  phase: resolveDataBucketPhase(app.node),
+});
+
+const ecrStack = new EcrStack(app, 'EcrStack', {
+  env: toolingEnv,
+  services: SERVICES,
+  environments: ENVIRONMENTS,
+});
+
+// One secrets stack and one environment stack per stage selected with `-c stages=dev,staging`,
+// on a docker-compose host or on ECS as the stage's hosting config says
+resolveStages(app.node).forEach((stage) => {
+  const config = getEnvironmentConfig(stage);
+  const env = { account: config.account, region: config.region };
+  const secretsStack = new SecretsStack(app, `${stackPrefix(stage)}Secrets`, {
+    env,
+    stage,
+    secrets: APP_SECRETS,
+  });
+  const modelBuckets = [dataStack.modelStorageBucket, dataStack.modelResultsBucket];
+  if (config.hosting.target === 'ecs') {
+    new EcsEnvironmentStack(app, `${stackPrefix(stage)}Infra`, {
+      env,
+      config,
+      imageRepositories: ecrStack.repositories,
+      modelBuckets,
+      secrets: secretsStack.secrets,
+    });
+  } else {
+    new EnvironmentStack(app, `${stackPrefix(stage)}Infra`, {
+      env,
+      config,
+      imageRepositories: Object.values(ecrStack.repositories),
+      deployBucket: bucketStack.deployBucket,
+      modelBuckets,
+      secrets: secretsStack.secrets,
+    });
+  }
 });
 
 // Deploy PipelineStack
-new PipelineStack(app, 'HealthPipelineStack', {
-  env: { account: "774814055379", region: "us-east-1" },
-  deployBucketName: bucketStack.deployBucket.bucketName,
+const pipelineStack = new PipelineStack(app, 'HealthPipelineStack', {
+  env: toolingEnv,
+  deployBucket: bucketStack.deployBucket,
+  environments: ENVIRONMENTS,
+  imageRepositories: ecrStack.repositories,
+  notifications: PIPELINE_NOTIFICATIONS,
 });
-app.synth();
\ No newline at end of file
+
+// Pull request preview builds and the reaper that deletes expired previews
+const previewStack = new PreviewStack(app, 'HealthPreviewStack', {
+  env: toolingEnv,
+  config: PREVIEW,
+  baseEnvironment: getEnvironmentConfig(PREVIEW.baseStage),
+  deployBucket: bucketStack.deployBucket,
+  imageRepositories: ecrStack.repositories,
+  previewRepositories: ecrStack.previewRepositories,
+  githubConnectionArn: pipelineStack.githubConnection.attrConnectionArn,
+});
+
+// A single preview stack, only when a preview build asks for it with `-c preview=<id>`
+const preview = resolvePreview(app.node);
+if (preview) {
+  new PreviewEnvironmentStack(app, previewStackName(preview), {
+    env: { account: PREVIEW.account, region: PREVIEW.region },
+    previewId: preview,
+    config: PREVIEW,
+    vpc: previewStack.vpc,
+    // Release images for the services the pull request leaves alone, preview images for its own
+    imageRepositories: [...Object.values(ecrStack.repositories), ...Object.values(ecrStack.previewRepositories)],
+    deployBucket: bucketStack.deployBucket,
+  });
+}
+
+[bucketStack, dataStack, ecrStack, pipelineStack, previewStack].forEach((stack) => addStandardTags(stack, TOOLING_ENV));
+applyHealthRules(app);
+
+app.synth();
@@ -0,0 +1,19 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getEnvironmentConfig, STAGE_NAMES } from '../lib/config/environments';
+import { buildSite } from '../lib/nginx/routes';
+import { renderBootstrapConfig, renderRateLimitsConfig, renderSiteConfig } from '../lib/nginx/render';
+
+// Usage: npm run render:nginx -- <outDir>
+// Writes <outDir>/<stage>/{frontend,ratelimits,bootstrap}.conf for every stage.
+const outDir = process.argv[2] ?? 'build/nginx';
+
+STAGE_NAMES.forEach((stage) => {
+  const site = buildSite(getEnvironmentConfig(stage).domainName);
+  const stageDir = path.join(outDir, stage);
+  fs.mkdirSync(stageDir, { recursive: true });
+  fs.writeFileSync(path.join(stageDir, 'frontend.conf'), renderSiteConfig(site));
+  fs.writeFileSync(path.join(stageDir, 'ratelimits.conf'), renderRateLimitsConfig(site));
+  fs.writeFileSync(path.join(stageDir, 'bootstrap.conf'), renderBootstrapConfig(site));
+  console.log(`Rendered nginx config for ${stage} into ${stageDir}`);
+});
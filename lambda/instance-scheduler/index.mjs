@@ -0,0 +1,74 @@
+// Stops or starts every instance tagged for an environment, invoked by EventBridge Scheduler with
+// { action, envName, timeZone, alarmNames }. Instances tagged with today's date under the skip tag are
+// left as they are, so a host can be kept up for an evening or kept down for a day. The environment's Auto
+// Scaling groups stop health checking while their hosts are down, or they would replace them. What to stop
+// or start is decided in schedule.mjs; this module only talks to EC2, Auto Scaling and CloudWatch.
+import { AutoScalingClient, DescribeAutoScalingGroupsCommand, ResumeProcessesCommand, SuspendProcessesCommand } from '@aws-sdk/client-auto-scaling';
+import { CloudWatchClient, DisableAlarmActionsCommand, EnableAlarmActionsCommand } from '@aws-sdk/client-cloudwatch';
+import { DescribeInstancesCommand, EC2Client, StartInstancesCommand, StopInstancesCommand, waitUntilInstanceRunning } from '@aws-sdk/client-ec2';
+import { applySchedule } from './schedule.mjs';
+
+const ec2 = new EC2Client({});
+const cloudwatch = new CloudWatchClient({});
+const autoscaling = new AutoScalingClient({});
+const ENV_TAG = process.env.ENV_TAG ?? 'HealthEnv';
+const SKIP_TAG = process.env.SKIP_TAG ?? 'HealthScheduleSkip';
+const SUSPENDED_PROCESSES = (process.env.SUSPENDED_PROCESSES ?? 'HealthCheck,ReplaceUnhealthy').split(',');
+
+const hosts = {
+  async describeInstances(envName, state) {
+    const instances = [];
+    let NextToken;
+    do {
+      const page = await ec2.send(new DescribeInstancesCommand({
+        Filters: [
+          { Name: `tag:${ENV_TAG}`, Values: [envName] },
+          { Name: 'instance-state-name', Values: [state] },
+        ],
+        NextToken,
+      }));
+      page.Reservations?.forEach((reservation) => instances.push(...(reservation.Instances ?? [])));
+      NextToken = page.NextToken;
+    } while (NextToken);
+    return instances;
+  },
+
+  async stopInstances(InstanceIds) {
+    await ec2.send(new StopInstancesCommand({ InstanceIds }));
+  },
+
+  async startInstances(InstanceIds) {
+    await ec2.send(new StartInstancesCommand({ InstanceIds }));
+  },
+
+  async waitUntilRunning(InstanceIds) {
+    await waitUntilInstanceRunning({ client: ec2, maxWaitTime: 240 }, { InstanceIds });
+  },
+
+  async setAlarmActions(AlarmNames, enabled) {
+    if (AlarmNames.length === 0) {
+      return;
+    }
+    await cloudwatch.send(enabled ? new EnableAlarmActionsCommand({ AlarmNames }) : new DisableAlarmActionsCommand({ AlarmNames }));
+  },
+
+  async setGroupProcesses(envName, enabled) {
+    const groupNames = [];
+    let NextToken;
+    do {
+      const page = await autoscaling.send(new DescribeAutoScalingGroupsCommand({
+        Filters: [{ Name: `tag:${ENV_TAG}`, Values: [envName] }],
+        NextToken,
+      }));
+      page.AutoScalingGroups?.forEach((group) => groupNames.push(group.AutoScalingGroupName));
+      NextToken = page.NextToken;
+    } while (NextToken);
+
+    for (const AutoScalingGroupName of groupNames) {
+      const input = { AutoScalingGroupName, ScalingProcesses: SUSPENDED_PROCESSES };
+      await autoscaling.send(enabled ? new ResumeProcessesCommand(input) : new SuspendProcessesCommand(input));
+    }
+  },
+};
+
+export const handler = (event) => applySchedule(event, hosts, { skipTag: SKIP_TAG });
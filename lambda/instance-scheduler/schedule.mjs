@@ -0,0 +1,54 @@
+// Stop and start logic of the instance scheduler, kept apart from the AWS clients in index.mjs.
+
+/**
+ * Stops or starts every instance tagged for `envName`, except those whose
+ * `skipTag` holds today's date in `timeZone`. `hosts` provides
+ * describeInstances(envName, state), stopInstances(ids), startInstances(ids),
+ * waitUntilRunning(ids), setGroupProcesses(envName, enabled) and
+ * setAlarmActions(alarmNames, enabled).
+ */
+export async function applySchedule({ action, envName, timeZone, alarmNames = [] }, hosts, { skipTag, now = new Date() }) {
+  if (action !== 'stop' && action !== 'start') {
+    throw new Error(`Unknown scheduler action ${action}`);
+  }
+  const today = localDate(now, timeZone);
+  const fromState = action === 'stop' ? 'running' : 'stopped';
+
+  const instances = await hosts.describeInstances(envName, fromState);
+  const skipped = instances.filter((instance) => tagValue(instance, skipTag) === today);
+  const targets = instances.filter((instance) => !skipped.includes(instance)).map((instance) => instance.InstanceId);
+  skipped.forEach((instance) => console.log(`Skipping ${action} of ${instance.InstanceId}: ${skipTag}=${today}`));
+
+  if (targets.length === 0) {
+    console.log(`No ${fromState} ${envName} instances to ${action}`);
+    return { action, envName, changed: [], skipped: skipped.map((instance) => instance.InstanceId) };
+  }
+
+  // Stopped hosts fail their status checks and health checks; keep alarms quiet while they are down
+  if (action === 'stop') {
+    await hosts.setAlarmActions(alarmNames, false);
+    await hosts.setGroupProcesses(envName, false);
+    await hosts.stopInstances(targets);
+  } else {
+    await hosts.startInstances(targets);
+    try {
+      // A pending host counts as unhealthy, so the groups resume only once it runs
+      await hosts.waitUntilRunning(targets);
+    } finally {
+      // A retry finds the hosts no longer stopped and would leave them unwatched, so undo the stop even if the wait failed
+      await hosts.setGroupProcesses(envName, true);
+      await hosts.setAlarmActions(alarmNames, true);
+    }
+  }
+  console.log(`${action === 'stop' ? 'Stopped' : 'Started'} ${targets.join(', ')}`);
+  return { action, envName, changed: targets, skipped: skipped.map((instance) => instance.InstanceId) };
+}
+
+function tagValue(instance, key) {
+  return instance.Tags?.find((tag) => tag.Key === key)?.Value?.trim();
+}
+
+// YYYY-MM-DD in the schedule's time zone, the format the skip tag is compared in
+function localDate(date, timeZone) {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+}
@@ -0,0 +1,123 @@
+// Turns a failed CodePipeline action into a digest: where it failed, the CodeBuild log link and the tail of
+// whatever explains it. Deploy builds print the SSM command they sent, whose output on each instance is the
+// interesting part; other builds get the tail of their own log. No AWS SDK in here: the sources that read
+// CodeBuild, CloudWatch Logs and SSM are passed in, so the digest can be built from recorded fixtures.
+
+export const TAIL_LINES = 30;
+
+// Printed by the deploy buildspec once the command is sent
+const COMMAND_ID_PATTERN = /SSM command ([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/;
+
+/** Fields of a "CodePipeline Action Execution State Change" event the digest is built from. */
+export function failedAction(event) {
+  const { detail, region } = event;
+  const result = detail['execution-result'] ?? {};
+  return {
+    pipeline: detail.pipeline,
+    executionId: detail['execution-id'],
+    stage: detail.stage,
+    action: detail.action,
+    region,
+    provider: detail.type?.provider,
+    summary: result['external-execution-summary'],
+    externalId: result['external-execution-id'],
+  };
+}
+
+export function findCommandId(lines) {
+  for (let index = lines.length - 1; index >= 0; index -= 1) {
+    const match = COMMAND_ID_PATTERN.exec(lines[index]);
+    if (match) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+export function tailLines(text, count = TAIL_LINES) {
+  const lines = (text ?? '').replace(/\s+$/, '').split('\n');
+  return lines.slice(-count).join('\n');
+}
+
+function executionUrl({ pipeline, executionId, region }) {
+  return `https://${region}.console.aws.amazon.com/codesuite/codepipeline/pipelines/${pipeline}/executions/${executionId}/timeline?region=${region}`;
+}
+
+// SSM keeps only the first 24,000 characters of stdout, and the end is what explains a failure. Commands
+// sent with CloudWatch output keep all of it, one stream per output under logStreamPrefix.
+async function commandOutput(sources, invocation, output) {
+  if (invocation.logGroupName && invocation[output]?.trim()) {
+    const lines = await sources.getLogLines(invocation.logGroupName, `${invocation.logStreamPrefix}/${output}`);
+    if (lines.length > 0) {
+      return lines.join('\n');
+    }
+  }
+  return invocation[output];
+}
+
+/**
+ * Builds the digest for one failed action. `sources` provides
+ * getBuild(buildId), getLogLines(groupName, streamName) and
+ * getCommandInvocations(commandId) -> [{ instanceId, status, stdout, stderr,
+ * logGroupName?, logStreamPrefix? }], the log fields set when the command
+ * sent its output to CloudWatch Logs.
+ */
+export async function buildDigest(event, sources) {
+  const failure = failedAction(event);
+  const sections = [];
+  let logLink;
+
+  if (failure.provider === 'CodeBuild' && failure.externalId) {
+    const build = await sources.getBuild(failure.externalId);
+    logLink = build?.logs?.deepLink;
+    const lines = build?.logs?.groupName ? await sources.getLogLines(build.logs.groupName, build.logs.streamName) : [];
+    const commandId = findCommandId(lines);
+
+    if (commandId) {
+      const invocations = await sources.getCommandInvocations(commandId);
+      sections.push(`SSM command ${commandId}`);
+      for (const invocation of invocations) {
+        const stdout = await commandOutput(sources, invocation, 'stdout');
+        const stderr = await commandOutput(sources, invocation, 'stderr');
+        sections.push(`==== ${invocation.instanceId}: ${invocation.status} ====`);
+        sections.push(`---- stdout (last ${TAIL_LINES} lines) ----\n${tailLines(stdout)}`);
+        if (stderr?.trim()) {
+          sections.push(`---- stderr (last ${TAIL_LINES} lines) ----\n${tailLines(stderr)}`);
+        }
+      }
+    } else if (lines.length > 0) {
+      sections.push(`---- build log (last ${TAIL_LINES} lines) ----\n${tailLines(lines.join('\n'))}`);
+    }
+  }
+
+  const title = `${failure.pipeline} failed at ${failure.stage} / ${failure.action}`;
+  const text = [
+    title,
+    `Execution: ${failure.executionId}`,
+    `Console: ${executionUrl(failure)}`,
+    ...(failure.summary ? [`Summary: ${failure.summary}`] : []),
+    ...(logLink ? [`Build logs: ${logLink}`] : []),
+    ...(sections.length > 0 ? ['', ...sections] : []),
+  ].join('\n');
+
+  return {
+    // SNS subjects are limited to 100 characters
+    subject: title.slice(0, 100),
+    text,
+    // AWS Chatbot custom notification, delivered to the chat subscription instead of the plain text
+    chat: {
+      version: '1.0',
+      source: 'custom',
+      content: {
+        textType: 'client-markdown',
+        title,
+        description: [
+          `Execution \`${failure.executionId}\``,
+          ...(failure.summary ? [failure.summary] : []),
+          ...(sections.length > 0 ? ['```', tailLines(sections.join('\n'), TAIL_LINES), '```'] : []),
+        ].join('\n'),
+        ...(logLink ? { nextSteps: [`<${logLink}|Build logs>`] } : {}),
+      },
+    },
+  };
+}
@@ -0,0 +1,60 @@
+// Publishes a failure digest to the pipeline notifications topic whenever a pipeline action fails, invoked by
+// EventBridge with a "CodePipeline Action Execution State Change" event. The digest itself is built in
+// digest.mjs; this module only reads CodeBuild, CloudWatch Logs and SSM and publishes the result.
+import { BatchGetBuildsCommand, CodeBuildClient } from '@aws-sdk/client-codebuild';
+import { CloudWatchLogsClient, GetLogEventsCommand } from '@aws-sdk/client-cloudwatch-logs';
+import { PublishCommand, SNSClient } from '@aws-sdk/client-sns';
+import { GetCommandInvocationCommand, ListCommandInvocationsCommand, SSMClient } from '@aws-sdk/client-ssm';
+import { buildDigest } from './digest.mjs';
+
+const codebuild = new CodeBuildClient({});
+const logs = new CloudWatchLogsClient({});
+const sns = new SNSClient({});
+const ssm = new SSMClient({});
+const TOPIC_ARN = process.env.TOPIC_ARN;
+// Enough of the end of a build log to find the SSM command it sent, or of a command output stream for its tail
+const LOG_EVENTS = 200;
+
+const sources = {
+  async getBuild(buildId) {
+    const { builds } = await codebuild.send(new BatchGetBuildsCommand({ ids: [buildId] }));
+    return builds?.[0];
+  },
+
+  async getLogLines(logGroupName, logStreamName) {
+    const { events } = await logs.send(new GetLogEventsCommand({ logGroupName, logStreamName, startFromHead: false, limit: LOG_EVENTS }));
+    return (events ?? []).map((event) => event.message.replace(/\n$/, ''));
+  },
+
+  async getCommandInvocations(CommandId) {
+    const { CommandInvocations } = await ssm.send(new ListCommandInvocationsCommand({ CommandId }));
+    return Promise.all((CommandInvocations ?? []).map(async ({ InstanceId, Status }) => {
+      const invocation = await ssm.send(new GetCommandInvocationCommand({ CommandId, InstanceId }));
+      const output = invocation.CloudWatchOutputConfig;
+      return {
+        instanceId: InstanceId,
+        status: Status,
+        stdout: invocation.StandardOutputContent,
+        stderr: invocation.StandardErrorContent,
+        // Streams are named <command>/<instance>/<plugin, with - for :>/<stdout|stderr>
+        ...(output?.CloudWatchOutputEnabled ? {
+          logGroupName: output.CloudWatchLogGroupName,
+          logStreamPrefix: `${CommandId}/${InstanceId}/${(invocation.PluginName ?? 'aws:runShellScript').replace(/:/g, '-')}`,
+        } : {}),
+      };
+    }));
+  },
+};
+
+export const handler = async (event) => {
+  const digest = await buildDigest(event, sources);
+  await sns.send(new PublishCommand({
+    TopicArn: TOPIC_ARN,
+    Subject: digest.subject,
+    // Email gets the plain text, the chat subscription the Chatbot payload
+    MessageStructure: 'json',
+    Message: JSON.stringify({ default: digest.text, email: digest.text, https: JSON.stringify(digest.chat) }),
+  }));
+  console.log(digest.text);
+  return { subject: digest.subject };
+};
@@ -0,0 +1,73 @@
+// Secrets Manager rotation handler for secrets that are a single random string.
+// Consumers read the value at release time, so setSecret and testSecret have nothing to do.
+import {
+  DescribeSecretCommand,
+  GetRandomPasswordCommand,
+  GetSecretValueCommand,
+  PutSecretValueCommand,
+  SecretsManagerClient,
+  UpdateSecretVersionStageCommand,
+} from '@aws-sdk/client-secrets-manager';
+
+const client = new SecretsManagerClient({});
+const SECRET_LENGTH = Number(process.env.SECRET_LENGTH ?? '32');
+
+export const handler = async ({ SecretId, ClientRequestToken, Step }) => {
+  const metadata = await client.send(new DescribeSecretCommand({ SecretId }));
+  if (!metadata.RotationEnabled) {
+    throw new Error(`Rotation is not enabled for ${SecretId}`);
+  }
+  const stages = metadata.VersionIdsToStages?.[ClientRequestToken];
+  if (!stages) {
+    throw new Error(`Version ${ClientRequestToken} of ${SecretId} has no stage`);
+  }
+  if (stages.includes('AWSCURRENT')) {
+    return;
+  }
+  if (!stages.includes('AWSPENDING')) {
+    throw new Error(`Version ${ClientRequestToken} of ${SecretId} is not pending rotation`);
+  }
+
+  switch (Step) {
+    case 'createSecret':
+      return createSecret(SecretId, ClientRequestToken);
+    case 'setSecret':
+    case 'testSecret':
+      return;
+    case 'finishSecret':
+      return finishSecret(SecretId, ClientRequestToken, metadata.VersionIdsToStages);
+    default:
+      throw new Error(`Unknown rotation step ${Step}`);
+  }
+};
+
+async function createSecret(SecretId, token) {
+  try {
+    await client.send(new GetSecretValueCommand({ SecretId, VersionId: token, VersionStage: 'AWSPENDING' }));
+    return;
+  } catch (error) {
+    if (error.name !== 'ResourceNotFoundException') {
+      throw error;
+    }
+  }
+  const { RandomPassword } = await client.send(new GetRandomPasswordCommand({
+    PasswordLength: SECRET_LENGTH,
+    ExcludePunctuation: true,
+  }));
+  await client.send(new PutSecretValueCommand({
+    SecretId,
+    ClientRequestToken: token,
+    SecretString: RandomPassword,
+    VersionStages: ['AWSPENDING'],
+  }));
+}
+
+async function finishSecret(SecretId, token, versions) {
+  const current = Object.keys(versions).find((version) => versions[version].includes('AWSCURRENT'));
+  await client.send(new UpdateSecretVersionStageCommand({
+    SecretId,
+    VersionStage: 'AWSCURRENT',
+    MoveToVersionId: token,
+    RemoveFromVersionId: current,
+  }));
+}
@@ -0,0 +1,159 @@
+import * as cdk from 'aws-cdk-lib';
+import { IConstruct } from 'constructs';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import { REQUIRED_TAGS } from '../config/tags';
+
+export type HealthRuleId =
+  | 'NoHardcodedAccountId'
+  | 'NoOpenIngress'
+  | 'BucketSecurity'
+  | 'EncryptedEbs'
+  | 'RequiredTags';
+
+interface Suppression {
+  rule: HealthRuleId;
+  justification: string;
+}
+
+const SUPPRESSION_METADATA = 'health:suppress';
+
+// The only ports that may be reachable from anywhere
+const PUBLIC_PORTS = [80, 443];
+const OPEN_CIDRS = ['0.0.0.0/0', '::/0'];
+
+// A literal 12-digit account in the account field of an ARN with a literal partition
+const ACCOUNT_IN_ARN = /arn:aws[\w-]*:[\w-]*:[\w-]*:(\d{12}):/g;
+
+/**
+ * Exempts `scope` and everything below it from one rule. The justification is
+ * recorded as construct metadata so it shows up in the cloud assembly.
+ */
+export function suppressRule(scope: IConstruct, rule: HealthRuleId, justification: string): void {
+  if (justification.trim().length === 0) {
+    throw new Error(`Suppressing ${rule} on ${scope.node.path} requires a justification`);
+  }
+  scope.node.addMetadata(SUPPRESSION_METADATA, { rule, justification } satisfies Suppression);
+}
+
+function isSuppressed(node: IConstruct, rule: HealthRuleId): boolean {
+  return node.node.scopes.some((scope) => scope.node.metadata
+    .some((entry) => entry.type === SUPPRESSION_METADATA && (entry.data as Suppression).rule === rule));
+}
+
+/**
+ * Infra rules checked at synth time. Security rules are errors, which fail
+ * `cdk synth`; missing tags are warnings. Add with `AspectPriority.READONLY`
+ * so tags and other mutating aspects have already run.
+ */
+export class HealthRules implements cdk.IAspect {
+  public visit(node: IConstruct): void {
+    if (!(node instanceof cdk.CfnResource)) {
+      return;
+    }
+
+    this.checkAccountIds(node);
+    this.checkTags(node);
+
+    if (node instanceof ec2.CfnSecurityGroup) {
+      const ingress = cdk.Stack.of(node).resolve(node.securityGroupIngress) ?? [];
+      ingress.forEach((rule: ec2.CfnSecurityGroup.IngressProperty) => this.checkIngress(node, rule));
+    } else if (node instanceof ec2.CfnSecurityGroupIngress) {
+      this.checkIngress(node, cdk.Stack.of(node).resolve({
+        cidrIp: node.cidrIp,
+        cidrIpv6: node.cidrIpv6,
+        ipProtocol: node.ipProtocol,
+        fromPort: node.fromPort,
+        toPort: node.toPort,
+      }));
+    } else if (node instanceof s3.CfnBucket) {
+      this.checkBucket(node);
+    } else if (node instanceof ec2.CfnVolume) {
+      if (cdk.Stack.of(node).resolve(node.encrypted) !== true) {
+        this.report(node, 'EncryptedEbs', 'EBS volume must set Encrypted');
+      }
+    } else if (node instanceof ec2.CfnInstance) {
+      this.checkBlockDevices(node, node.blockDeviceMappings);
+    } else if (node instanceof ec2.CfnLaunchTemplate) {
+      const data = cdk.Stack.of(node).resolve(node.launchTemplateData);
+      this.checkBlockDevices(node, data?.blockDeviceMappings);
+    }
+  }
+
+  private checkAccountIds(node: cdk.CfnResource) {
+    // Stack.formatArn and resource references render the partition as the AWS::Partition reference
+    // (cdk.json keeps enablePartitionLiterals off for this), so an ARN that still starts with a literal
+    // partition was written out by hand, whichever account it names, the stack's own included
+    const rendered = JSON.stringify(cdk.Stack.of(node).resolve(node._toCloudFormation()));
+    const accounts = new Set([...rendered.matchAll(ACCOUNT_IN_ARN)].map((match) => match[1]));
+    if (accounts.size > 0) {
+      this.report(node, 'NoHardcodedAccountId',
+        `ARN hard-codes account ${[...accounts].join(', ')}; reference the resource or use Stack.formatArn`);
+    }
+  }
+
+  private checkIngress(node: cdk.CfnResource, rule: ec2.CfnSecurityGroup.IngressProperty) {
+    const open = OPEN_CIDRS.includes(rule.cidrIp ?? '') || OPEN_CIDRS.includes(rule.cidrIpv6 ?? '');
+    if (!open) {
+      return;
+    }
+    const publicPort = rule.ipProtocol === 'tcp'
+      && rule.fromPort === rule.toPort
+      && PUBLIC_PORTS.includes(rule.fromPort ?? -1);
+    if (!publicPort) {
+      const ports = rule.fromPort === rule.toPort ? `${rule.fromPort}` : `${rule.fromPort}-${rule.toPort}`;
+      this.report(node, 'NoOpenIngress',
+        `Ingress from ${rule.cidrIp ?? rule.cidrIpv6} on ${rule.ipProtocol} ${ports}; only tcp ${PUBLIC_PORTS.join('/')} may be open to the internet`);
+    }
+  }
+
+  private checkBucket(node: s3.CfnBucket) {
+    const stack = cdk.Stack.of(node);
+    const encryption = stack.resolve(node.bucketEncryption);
+    if (!encryption?.serverSideEncryptionConfiguration?.length) {
+      this.report(node, 'BucketSecurity', 'Bucket must configure server-side encryption');
+    }
+    const block = stack.resolve(node.publicAccessBlockConfiguration) ?? {};
+    const allBlocked = ['blockPublicAcls', 'blockPublicPolicy', 'ignorePublicAcls', 'restrictPublicBuckets']
+      .every((setting) => block[setting] === true);
+    if (!allBlocked) {
+      this.report(node, 'BucketSecurity', 'Bucket must block all public access');
+    }
+  }
+
+  private checkBlockDevices(node: cdk.CfnResource, mappings: unknown) {
+    const resolved = cdk.Stack.of(node).resolve(mappings) ?? [];
+    resolved
+      .filter((mapping: { ebs?: { encrypted?: boolean } }) => mapping.ebs && mapping.ebs.encrypted !== true)
+      .forEach((mapping: { deviceName: string }) => {
+        this.report(node, 'EncryptedEbs', `EBS volume ${mapping.deviceName} must set encrypted`);
+      });
+  }
+
+  private checkTags(node: cdk.CfnResource) {
+    if (!cdk.TagManager.isTaggable(node)) {
+      return;
+    }
+    const tags = node.tags.tagValues();
+    const missing = REQUIRED_TAGS.filter((key) => !(key in tags));
+    if (missing.length > 0) {
+      this.report(node, 'RequiredTags', `Missing required tags: ${missing.join(', ')}`);
+    }
+  }
+
+  private report(node: cdk.CfnResource, rule: HealthRuleId, message: string) {
+    if (isSuppressed(node, rule)) {
+      return;
+    }
+    if (rule === 'RequiredTags') {
+      cdk.Annotations.of(node).addWarningV2(`health:${rule}`, `[${rule}] ${message}`);
+    } else {
+      cdk.Annotations.of(node).addError(`[${rule}] ${message}`);
+    }
+  }
+}
+
+/** Applies {@link HealthRules} to every stack under `scope`. */
+export function applyHealthRules(scope: IConstruct): void {
+  cdk.Aspects.of(scope).add(new HealthRules(), { priority: cdk.AspectPriority.READONLY });
+}
@@ -0,0 +1,191 @@
+import { Node } from 'constructs';
+import * as cdk from 'aws-cdk-lib';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as events from 'aws-cdk-lib/aws-events';
+
+export type StageName = 'dev' | 'staging' | 'prod';
+
+export interface IntegrationTestConfig {
+  // JUnit suite classes in the HealthIntegrationTests repo, passed to `gradlew test --tests`
+  suites: string[];
+  // Exposed to the suites as HEALTH_BASE_URL
+  baseUrl: string;
+}
+
+export interface InstanceScheduleConfig {
+  // When the host is stopped and started, in timeZone. A deploy starts a stopped host on its own.
+  stop: events.CronOptions;
+  start: events.CronOptions;
+  timeZone: cdk.TimeZone;
+}
+
+export interface BudgetConfig {
+  // Monthly cost of resources tagged with the stage's HealthEnv tag
+  monthlyLimitUsd: number;
+  // Percentages of the limit that notify the stage's alarm topic once actual cost reaches them
+  actualThresholdsPercent: number[];
+  // Percentage of the limit that notifies once the forecast for the month reaches it
+  forecastThresholdPercent: number;
+}
+
+export interface EcsServiceSizing {
+  // Fargate task size, in CPU units and MiB
+  cpu: number;
+  memoryLimitMiB: number;
+  desiredCount: number;
+}
+
+export interface EcsHostingConfig {
+  target: 'ecs';
+  // Fargate sizing for every image service, keyed by service name
+  services: Record<string, EcsServiceSizing>;
+  // Cassandra keeps running in Docker on an EC2 host with the stage's data volume
+  cassandraImage: string;
+}
+
+/**
+ * Where a stage's services run: the single docker-compose host, or ECS
+ * services behind an ALB with Cassandra on its own EC2 host. The instance
+ * and volume settings size the compose host or the Cassandra host.
+ */
+export type HostingConfig = { target: 'compose' } | EcsHostingConfig;
+
+export interface EnvironmentConfig {
+  stage: StageName;
+  account: string;
+  region: string;
+  // Public hostname served by nginx on the environment host
+  domainName: string;
+  // Existing public Route 53 zone the domain's A record is created in
+  hostedZoneName: string;
+  hosting: HostingConfig;
+  instanceClass: ec2.InstanceClass;
+  instanceSize: ec2.InstanceSize;
+  rootVolumeSizeGiB: number;
+  // Volume mounted on /data for Docker + Cassandra
+  dataVolumeSizeGiB: number;
+  // Snapshot the standalone data volume is created from, e.g. the last backup of the volume it replaces
+  dataVolumeSnapshotId?: string;
+  // CIDRs allowed to reach nginx on 80/443
+  allowedCidrs: string[];
+  // CIDRs allowed to SSH in; empty keeps port 22 closed since hosts are managed through SSM
+  sshCidrs: string[];
+  // Releases kept on the instance for rollback, current one included
+  retainedReleases: number;
+  // AWS Backup schedule (UTC) and retention for the /data volume
+  dataVolumeBackup: {
+    schedule: events.CronOptions;
+    retentionDays: number;
+  };
+  // Suites run against the environment right after it is deployed; a failure stops the promotion
+  integrationTests?: IntegrationTestConfig;
+  // Stops the host outside working hours; omitted for hosts that run around the clock
+  instanceSchedule?: InstanceScheduleConfig;
+  budget: BudgetConfig;
+}
+
+const ACCOUNT = '774814055379';
+const REGION = 'us-east-1';
+
+export const ENVIRONMENTS: Record<StageName, EnvironmentConfig> = {
+  dev: {
+    stage: 'dev',
+    account: ACCOUNT,
+    region: REGION,
+    domainName: 'dev.aegiscan.app',
+    hostedZoneName: 'aegiscan.app',
+    hosting: { target: 'compose' },
+    instanceClass: ec2.InstanceClass.T3,
+    instanceSize: ec2.InstanceSize.MEDIUM,
+    rootVolumeSizeGiB: 16,
+    dataVolumeSizeGiB: 200,
+    allowedCidrs: ['0.0.0.0/0'],
+    sshCidrs: [],
+    retainedReleases: 5,
+    dataVolumeBackup: { schedule: { hour: '5', minute: '0' }, retentionDays: 7 },
+    integrationTests: {
+      suites: ['org.dev.HealthDevBEIntegrationTestSuite'],
+      baseUrl: 'https://dev.aegiscan.app',
+    },
+    instanceSchedule: {
+      stop: { hour: '20', minute: '0' },
+      start: { weekDay: 'MON-FRI', hour: '7', minute: '0' },
+      timeZone: cdk.TimeZone.AMERICA_NEW_YORK,
+    },
+    budget: { monthlyLimitUsd: 100, actualThresholdsPercent: [80, 100], forecastThresholdPercent: 100 },
+  },
+  staging: {
+    stage: 'staging',
+    account: ACCOUNT,
+    region: REGION,
+    domainName: 'staging.aegiscan.app',
+    hostedZoneName: 'aegiscan.app',
+    hosting: { target: 'compose' },
+    instanceClass: ec2.InstanceClass.T3,
+    instanceSize: ec2.InstanceSize.MEDIUM,
+    rootVolumeSizeGiB: 16,
+    dataVolumeSizeGiB: 200,
+    allowedCidrs: ['0.0.0.0/0'],
+    sshCidrs: [],
+    retainedReleases: 5,
+    dataVolumeBackup: { schedule: { hour: '5', minute: '0' }, retentionDays: 14 },
+    budget: { monthlyLimitUsd: 150, actualThresholdsPercent: [80, 100], forecastThresholdPercent: 100 },
+  },
+  prod: {
+    stage: 'prod',
+    account: ACCOUNT,
+    region: REGION,
+    domainName: 'aegiscan.app',
+    hostedZoneName: 'aegiscan.app',
+    hosting: { target: 'compose' },
+    instanceClass: ec2.InstanceClass.T3,
+    instanceSize: ec2.InstanceSize.LARGE,
+    rootVolumeSizeGiB: 32,
+    dataVolumeSizeGiB: 500,
+    allowedCidrs: ['0.0.0.0/0'],
+    sshCidrs: [],
+    retainedReleases: 10,
+    dataVolumeBackup: { schedule: { hour: '0/12', minute: '0' }, retentionDays: 35 },
+    budget: { monthlyLimitUsd: 300, actualThresholdsPercent: [50, 80, 100], forecastThresholdPercent: 100 },
+  },
+};
+
+export const STAGE_NAMES = Object.keys(ENVIRONMENTS) as StageName[];
+
+export function isStageName(value: string): value is StageName {
+  return (STAGE_NAMES as string[]).includes(value);
+}
+
+export function getEnvironmentConfig(stage: StageName): EnvironmentConfig {
+  return ENVIRONMENTS[stage];
+}
+
+/**
+ * Stages to synthesize, read from the `stages` context key
+ * (e.g. `cdk deploy -c stages=dev,staging`). Defaults to dev only.
+ */
+export function resolveStages(node: Node): StageName[] {
+  const raw = node.tryGetContext('stages');
+  if (raw === undefined) {
+    return ['dev'];
+  }
+
+  const requested: string[] = Array.isArray(raw) ? raw : String(raw).split(',');
+  return requested.map((value) => {
+    const stage = value.trim();
+    if (!isStageName(stage)) {
+      throw new Error(`Unknown stage '${stage}' in context 'stages'. Expected one of: ${STAGE_NAMES.join(', ')}`);
+    }
+    return stage;
+  });
+}
+
+/** Capitalized stage name for construct ids, e.g. dev -> Dev */
+export function stageTitle(stage: StageName): string {
+  return `${stage.charAt(0).toUpperCase()}${stage.slice(1)}`;
+}
+
+/** Stack id prefix for a stage, e.g. dev -> HealthDev */
+export function stackPrefix(stage: StageName): string {
+  return `Health${stageTitle(stage)}`;
+}
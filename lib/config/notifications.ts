@@ -0,0 +1,16 @@
+export interface SlackChannel {
+  // From the AWS Chatbot console once the workspace is authorized
+  workspaceId: string;
+  channelId: string;
+}
+
+export interface NotificationConfig {
+  // Addresses subscribed to pipeline notifications; each confirms its subscription once
+  emails: string[];
+  // Chat channel the notifications and failure digests are posted to through AWS Chatbot
+  slack?: SlackChannel;
+}
+
+export const PIPELINE_NOTIFICATIONS: NotificationConfig = {
+  emails: [],
+};
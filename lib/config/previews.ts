@@ -0,0 +1,98 @@
+import { Node } from 'constructs';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import { ENVIRONMENTS, StageName } from './environments';
+import { ServiceDefinition } from './services';
+
+export interface PreviewConfig {
+  account: string;
+  region: string;
+  // Previews run this stage's latest release with the pull request's image swapped in,
+  // read its secrets and run its integration tests
+  baseStage: StageName;
+  // Existing public Route 53 zone; previews are served from <preview id>.<domainSuffix>
+  hostedZoneName: string;
+  domainSuffix: string;
+  instanceClass: ec2.InstanceClass;
+  instanceSize: ec2.InstanceSize;
+  rootVolumeSizeGiB: number;
+  dataVolumeSizeGiB: number;
+  // CIDRs allowed to reach nginx on 80/443
+  allowedCidrs: string[];
+  retainedReleases: number;
+  // A preview not deployed again within this many hours is deleted even if its pull request is still open
+  ttlHours: number;
+  // Numeric GitHub user ids whose pull requests get previews (https://api.github.com/users/<login>).
+  // Preview builds run the pull request's code, so nobody else's, forks included, may trigger one.
+  // With none listed the webhooks are not created.
+  trustedActorIds: string[];
+}
+
+export const PREVIEW: PreviewConfig = {
+  account: ENVIRONMENTS.dev.account,
+  region: ENVIRONMENTS.dev.region,
+  baseStage: 'dev',
+  hostedZoneName: 'aegiscan.app',
+  domainSuffix: 'preview.aegiscan.app',
+  instanceClass: ec2.InstanceClass.T3,
+  instanceSize: ec2.InstanceSize.MEDIUM,
+  rootVolumeSizeGiB: 16,
+  dataVolumeSizeGiB: 50,
+  allowedCidrs: ['0.0.0.0/0'],
+  retainedReleases: 2,
+  ttlHours: 72,
+  trustedActorIds: [],
+};
+
+// Preview release ids, and so their image tags, start with this
+export const PREVIEW_IMAGE_TAG_PREFIX = 'preview-';
+export const PREVIEW_STACK_PREFIX = 'HealthPreview-';
+// Stack tag holding the time the reaper deletes the preview after
+export const PREVIEW_EXPIRES_TAG = 'HealthPreviewExpiresAt';
+
+const PREVIEW_ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const MAX_PREVIEW_ID_LENGTH = 40;
+
+/** Lowercase service name without the Health prefix, e.g. HealthBEService -> beservice */
+export function previewSlug(service: ServiceDefinition): string {
+  return service.name.toLowerCase().replace(/^health/, '');
+}
+
+/** Preview id of a pull request, e.g. beservice-pr42. Also its subdomain. */
+export function previewId(service: ServiceDefinition, pullRequest: number): string {
+  return `${previewSlug(service)}-pr${pullRequest}`;
+}
+
+/** HealthEnv tag of a preview's resources; never a stage name, so stage deploys cannot reach it. */
+export function previewEnvName(id: string): string {
+  return `preview-${id}`;
+}
+
+export function previewStackName(id: string): string {
+  return `${PREVIEW_STACK_PREFIX}${id}`;
+}
+
+export function previewDomain(id: string, config: PreviewConfig = PREVIEW): string {
+  return `${id}.${config.domainSuffix}`;
+}
+
+/** SSM document that deploys a release onto the preview's host. */
+export function previewDeployDocumentName(id: string): string {
+  return `Health-${previewEnvName(id)}-Deploy`;
+}
+
+/**
+ * Preview to synthesize, read from the `preview` context key
+ * (e.g. `cdk deploy HealthPreview-beservice-pr42 -c preview=beservice-pr42`).
+ */
+export function resolvePreview(node: Node): string | undefined {
+  const raw = node.tryGetContext('preview');
+  if (raw === undefined) {
+    return undefined;
+  }
+
+  const id = String(raw).trim();
+  if (!PREVIEW_ID_PATTERN.test(id) || id.length > MAX_PREVIEW_ID_LENGTH) {
+    throw new Error(`Invalid preview id '${id}' in context 'preview'. Use up to ${MAX_PREVIEW_ID_LENGTH} lowercase letters, digits and single hyphens`);
+  }
+  return id;
+}
@@ -0,0 +1,26 @@
+import { StageName } from './environments';
+
+export interface AppSecret {
+  // Secret is named health/<stage>/<name>
+  name: string;
+  // Variable the value is exposed as in the containers' env file
+  envVar: string;
+  description: string;
+  // Rotate to a new random value on this schedule; containers pick it up on the next release
+  rotateAfterDays?: number;
+}
+
+// Generated and rotated values stay shell- and env-file-safe
+export const SECRET_LENGTH = 32;
+
+/**
+ * Application secrets created per environment by the secrets stack and
+ * rendered into the containers' env file on the instance at release time.
+ */
+export const APP_SECRETS: AppSecret[] = [
+  { name: 'server-api-key', envVar: 'SERVER_API_KEY', description: 'API key the backend service expects from its clients' },
+];
+
+export function appSecretName(stage: StageName, secret: AppSecret): string {
+  return `health/${stage}/${secret.name}`;
+}
@@ -0,0 +1,125 @@
+import { ReadinessProbe } from '../healthgate/probes';
+
+export const GITHUB_OWNER = 'S-Ungurean';
+
+export type BuildTool = 'gradle' | 'npm';
+
+export interface ServiceBuild {
+  tool: BuildTool;
+  // Shell command run from the repo checkout
+  command: string;
+}
+
+export interface ServiceImage {
+  // Service key in the workspace docker-compose.yml
+  composeService: string;
+  // Docker build context relative to the repo checkout; defaults to the checkout itself
+  context?: string;
+  // Port the container serves on; nginx and the ALB route to it through UPSTREAM_ROUTES
+  port?: number;
+}
+
+export interface ServiceDefinition {
+  name: string;
+  // GitHub repo under GITHUB_OWNER; omitted for third-party containers such as Cassandra
+  repo?: string;
+  branch?: string;
+  // Clone into the workspace root instead of a sub-directory named after the repo
+  workspaceRoot?: boolean;
+  build?: ServiceBuild;
+  // Library repos built before this one and laid out next to its checkout; its Gradle build reads their build output
+  dependsOn?: string[];
+  // docker-compose container name; omitted for libraries and tooling repos
+  containerName?: string;
+  // Image built in the Package stage and pushed to ECR; omitted for third-party images
+  image?: ServiceImage;
+  // Checked by the post-deploy health gate; containers without one must just stay up
+  readinessProbe?: ReadinessProbe;
+}
+
+/**
+ * Every repo and container that makes up the health workspace. Source
+ * actions, the Package stage builds and post-deploy checks are all generated
+ * from this list. Builds run in parallel except where `dependsOn` orders a
+ * library before the services that use it.
+ */
+export const SERVICES: ServiceDefinition[] = [
+  { name: 'HealthWorkspace', repo: 'HealthWorkspace', branch: 'master', workspaceRoot: true },
+  {
+    name: 'HealthCDK',
+    repo: 'HealthCDK',
+    branch: 'main',
+    build: {
+      tool: 'npm',
+      command: 'npm install --no-audit --no-fund'
+        + ' && npm run render:nginx -- build/nginx'
+        + ' && aws s3 cp build/nginx s3://$DEPLOY_BUCKET_NAME/nginx --recursive'
+        + ' && rm -rf node_modules build',
+    },
+  },
+  {
+    name: 'HealthDAO',
+    repo: 'HealthDAO',
+    branch: 'main',
+    build: { tool: 'gradle', command: './gradlew clean build -x test' },
+  },
+  {
+    name: 'HealthSAO',
+    repo: 'HealthSAO',
+    branch: 'main',
+    build: { tool: 'gradle', command: './gradlew clean build -x test' },
+  },
+  {
+    name: 'HealthBEService',
+    repo: 'HealthBEService',
+    branch: 'main',
+    build: { tool: 'gradle', command: './gradlew clean build -x test' },
+    dependsOn: ['HealthDAO', 'HealthSAO'],
+    containerName: 'healthai',
+    image: { composeService: 'healthai', port: 8080 },
+    readinessProbe: { type: 'http', path: '/v1/health', expectedStatus: 200 },
+  },
+  {
+    name: 'HealthFEService',
+    repo: 'HealthFEService',
+    branch: 'main',
+    containerName: 'healthfe',
+    image: { composeService: 'healthfe', port: 5173 },
+    readinessProbe: { type: 'http', path: '/', expectedStatus: 200 },
+  },
+  {
+    name: 'HealthInferenceService',
+    repo: 'HealthInferenceService',
+    branch: 'main',
+    containerName: 'healthpy',
+    image: { composeService: 'healthpy' },
+  },
+  { name: 'HealthIntegrationTests', repo: 'HealthIntegrationTests', branch: 'main' },
+  {
+    name: 'Cassandra',
+    containerName: 'cassandra',
+    // Cassandra takes a few minutes to join its own ring on a cold start
+    readinessProbe: { type: 'tcp', port: 9042, timing: { maxAttempts: 20 } },
+  },
+];
+
+export function sourceServices(services: ServiceDefinition[] = SERVICES): ServiceDefinition[] {
+  return services.filter((service) => service.repo !== undefined);
+}
+
+/** Services that get their own build action in the Package stage. */
+export function packagedServices(services: ServiceDefinition[] = SERVICES): ServiceDefinition[] {
+  return services.filter((service) => service.build !== undefined || service.image !== undefined);
+}
+
+export function imageServices(services: ServiceDefinition[] = SERVICES): ServiceDefinition[] {
+  return services.filter((service) => service.image !== undefined);
+}
+
+export function getService(name: string, services: ServiceDefinition[] = SERVICES): ServiceDefinition {
+  const service = services.find((candidate) => candidate.name === name);
+  if (!service) {
+    throw new Error(`Unknown service '${name}'`);
+  }
+  return service;
+}
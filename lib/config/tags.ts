@@ -0,0 +1,19 @@
+import { IConstruct } from 'constructs';
+import { Tags } from 'aws-cdk-lib';
+
+// Stage a resource belongs to; deploys target instances by it
+export const ENV_TAG = 'HealthEnv';
+export const OWNER_TAG = 'Owner';
+
+export const REQUIRED_TAGS = [ENV_TAG, OWNER_TAG];
+
+export const OWNER = 'health-platform';
+
+// HealthEnv value for the shared stacks: deploy bucket, ECR and the pipeline
+export const TOOLING_ENV = 'tooling';
+
+/** Tags everything under `scope` with the required tags. */
+export function addStandardTags(scope: IConstruct, env: string): void {
+  Tags.of(scope).add(ENV_TAG, env);
+  Tags.of(scope).add(OWNER_TAG, OWNER);
+}
@@ -0,0 +1,271 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as backup from 'aws-cdk-lib/aws-backup';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as ssm from 'aws-cdk-lib/aws-ssm';
+import { StageName } from '../config/environments';
+import { ENV_TAG } from '../config/tags';
+import { AGENT_SERVICE } from './HostMonitoring';
+
+export interface DataVolumeBackupProps {
+  stage: StageName;
+  // Standalone data volume; hosts find it by the backup tag at boot
+  volume: ec2.Volume;
+  // Device the data volume is attached on
+  deviceName: string;
+  mountPoint: string;
+  schedule: events.CronOptions;
+  retentionDays: number;
+}
+
+export const DATA_VOLUME_BACKUP_TAG = 'HealthDataVolume';
+
+/**
+ * AWS Backup plan for the Docker + Cassandra data volume, selected by the
+ * `HealthDataVolume=<stage>` tag, plus an SSM Automation document that
+ * restores a snapshot onto a new volume and remounts it on the stage's
+ * current host. The tag moves to the restored volume, so a replacement host
+ * attaches that one. The stack still declares the tag on the replaced volume
+ * and can put it back; a host finding both refuses to boot rather than guess.
+ */
+export class DataVolumeBackup extends Construct {
+  public readonly backupPlan: backup.BackupPlan;
+  public readonly restoreDocument: ssm.CfnDocument;
+
+  constructor(scope: Construct, id: string, props: DataVolumeBackupProps) {
+    super(scope, id);
+
+    const { stage, volume, deviceName, mountPoint } = props;
+    const stack = cdk.Stack.of(this);
+
+    cdk.Tags.of(volume).add(DATA_VOLUME_BACKUP_TAG, stage);
+
+    const vault = new backup.BackupVault(this, 'Vault', {
+      backupVaultName: `health-${stage}-data`,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    this.backupPlan = new backup.BackupPlan(this, 'Plan', {
+      backupPlanName: `health-${stage}-data`,
+      backupVault: vault,
+      backupPlanRules: [
+        new backup.BackupPlanRule({
+          ruleName: 'DataVolumeSnapshot',
+          scheduleExpression: events.Schedule.cron(props.schedule),
+          deleteAfter: cdk.Duration.days(props.retentionDays),
+          startWindow: cdk.Duration.hours(1),
+          completionWindow: cdk.Duration.hours(4),
+        }),
+      ],
+    });
+    this.backupPlan.addSelection('DataVolume', {
+      resources: [backup.BackupResource.fromTag(DATA_VOLUME_BACKUP_TAG, stage)],
+    });
+
+    const automationRole = new iam.Role(this, 'RestoreAutomationRole', {
+      assumedBy: new iam.ServicePrincipal('ssm.amazonaws.com'),
+      description: `Restores a ${stage} data volume snapshot onto the ${stage} host`,
+    });
+    automationRole.addToPolicy(new iam.PolicyStatement({
+      actions: ['ec2:DescribeInstances', 'ec2:DescribeVolumes', 'ec2:DescribeSnapshots', 'ssm:ListCommands', 'ssm:ListCommandInvocations'],
+      resources: ['*'],
+    }));
+    automationRole.addToPolicy(new iam.PolicyStatement({
+      actions: ['ec2:CreateVolume', 'ec2:CreateTags', 'ec2:DeleteTags'],
+      resources: [
+        stack.formatArn({ service: 'ec2', resource: 'volume', resourceName: '*' }),
+        stack.formatArn({ service: 'ec2', resource: 'snapshot', resourceName: '*', account: '' }),
+      ],
+    }));
+    automationRole.addToPolicy(new iam.PolicyStatement({
+      actions: ['ec2:AttachVolume', 'ec2:DetachVolume'],
+      resources: [stack.formatArn({ service: 'ec2', resource: 'volume', resourceName: '*' })],
+    }));
+    automationRole.addToPolicy(new iam.PolicyStatement({
+      actions: ['ec2:AttachVolume', 'ec2:DetachVolume'],
+      resources: [stack.formatArn({ service: 'ec2', resource: 'instance', resourceName: '*' })],
+      conditions: { StringEquals: { [`aws:ResourceTag/${ENV_TAG}`]: stage } },
+    }));
+    automationRole.addToPolicy(new iam.PolicyStatement({
+      actions: ['ssm:SendCommand'],
+      resources: [stack.formatArn({ service: 'ssm', resource: 'document', resourceName: 'AWS-RunShellScript', account: '' })],
+    }));
+    automationRole.addToPolicy(new iam.PolicyStatement({
+      actions: ['ssm:SendCommand'],
+      resources: [stack.formatArn({ service: 'ec2', resource: 'instance', resourceName: '*' })],
+      conditions: { StringEquals: { [`ssm:resourceTag/${ENV_TAG}`]: stage } },
+    }));
+
+    this.restoreDocument = new ssm.CfnDocument(this, 'RestoreDocument', {
+      name: `Health-${stage}-RestoreDataVolume`,
+      documentType: 'Automation',
+      documentFormat: 'JSON',
+      updateMethod: 'NewVersion',
+      content: restoreDocumentContent({
+        deviceName,
+        mountPoint,
+        stage,
+        automationRoleArn: automationRole.roleArn,
+      }),
+    });
+  }
+}
+
+interface RestoreDocumentOptions {
+  deviceName: string;
+  mountPoint: string;
+  stage: StageName;
+  automationRoleArn: string;
+}
+
+/**
+ * Restore runbook. The replaced volume is detached but kept, so a bad
+ * restore can be undone by running the document again with a snapshot of it.
+ */
+function restoreDocumentContent(options: RestoreDocumentOptions) {
+  const { deviceName, mountPoint, stage, automationRoleArn } = options;
+  const describeAttached = {
+    Service: 'ec2',
+    Api: 'DescribeVolumes',
+    Filters: [
+      { Name: 'attachment.instance-id', Values: ['{{ FindInstance.InstanceId }}'] },
+      { Name: 'attachment.device', Values: [deviceName] },
+    ],
+  };
+  const waitForVolume = (name: string, volumeId: string, state: string) => ({
+    name,
+    action: 'aws:waitForAwsResourceProperty',
+    timeoutSeconds: 900,
+    inputs: {
+      Service: 'ec2',
+      Api: 'DescribeVolumes',
+      VolumeIds: [volumeId],
+      PropertySelector: '$.Volumes[0].State',
+      DesiredValues: [state],
+    },
+  });
+  const runShell = (name: string, commands: string[]) => ({
+    name,
+    action: 'aws:runCommand',
+    timeoutSeconds: 900,
+    inputs: {
+      DocumentName: 'AWS-RunShellScript',
+      InstanceIds: ['{{ FindInstance.InstanceId }}'],
+      Parameters: { commands },
+    },
+  });
+
+  return {
+    schemaVersion: '0.3',
+    description: `Restores a snapshot of the ${stage} data volume onto a new volume and remounts it on ${mountPoint}.`,
+    assumeRole: '{{ AutomationAssumeRole }}',
+    parameters: {
+      SnapshotId: { type: 'String', description: 'Snapshot to restore, e.g. a recovery point from the AWS Backup vault' },
+      AutomationAssumeRole: { type: 'String', default: automationRoleArn },
+    },
+    mainSteps: [
+      // The host is replaced by its Auto Scaling group, so find whichever one is running now
+      {
+        name: 'FindInstance',
+        action: 'aws:executeAwsApi',
+        inputs: {
+          Service: 'ec2',
+          Api: 'DescribeInstances',
+          Filters: [
+            { Name: `tag:${ENV_TAG}`, Values: [stage] },
+            { Name: 'instance-state-name', Values: ['running'] },
+          ],
+        },
+        outputs: [
+          { Name: 'InstanceId', Selector: '$.Reservations[0].Instances[0].InstanceId', Type: 'String' },
+          { Name: 'AvailabilityZone', Selector: '$.Reservations[0].Instances[0].Placement.AvailabilityZone', Type: 'String' },
+        ],
+      },
+      {
+        name: 'DescribeCurrentVolume',
+        action: 'aws:executeAwsApi',
+        inputs: describeAttached,
+        outputs: [{ Name: 'VolumeId', Selector: '$.Volumes[0].VolumeId', Type: 'String' }],
+      },
+      {
+        name: 'CreateRestoredVolume',
+        action: 'aws:executeAwsApi',
+        inputs: {
+          Service: 'ec2',
+          Api: 'CreateVolume',
+          SnapshotId: '{{ SnapshotId }}',
+          AvailabilityZone: '{{ FindInstance.AvailabilityZone }}',
+          VolumeType: 'gp3',
+          TagSpecifications: [{
+            ResourceType: 'volume',
+            Tags: [
+              { Key: 'Name', Value: `health-${stage}-data` },
+              { Key: ENV_TAG, Value: stage },
+              { Key: 'RestoredFrom', Value: '{{ SnapshotId }}' },
+            ],
+          }],
+        },
+        outputs: [{ Name: 'VolumeId', Selector: '$.VolumeId', Type: 'String' }],
+      },
+      waitForVolume('WaitForRestoredVolume', '{{ CreateRestoredVolume.VolumeId }}', 'available'),
+      // The CloudWatch agent tails container logs on the mount point, which keeps it busy
+      runShell('StopServices', [
+        'set -e',
+        `if systemctl cat ${AGENT_SERVICE} > /dev/null 2>&1; then systemctl stop ${AGENT_SERVICE}; fi`,
+        'systemctl stop docker',
+        `umount ${mountPoint} || true`,
+        `! mountpoint -q ${mountPoint}`,
+      ]),
+      {
+        name: 'DetachCurrentVolume',
+        action: 'aws:executeAwsApi',
+        inputs: { Service: 'ec2', Api: 'DetachVolume', VolumeId: '{{ DescribeCurrentVolume.VolumeId }}' },
+      },
+      waitForVolume('WaitForDetach', '{{ DescribeCurrentVolume.VolumeId }}', 'available'),
+      {
+        name: 'AttachRestoredVolume',
+        action: 'aws:executeAwsApi',
+        inputs: {
+          Service: 'ec2',
+          Api: 'AttachVolume',
+          Device: deviceName,
+          InstanceId: '{{ FindInstance.InstanceId }}',
+          VolumeId: '{{ CreateRestoredVolume.VolumeId }}',
+        },
+      },
+      waitForVolume('WaitForAttach', '{{ CreateRestoredVolume.VolumeId }}', 'in-use'),
+      {
+        name: 'MoveBackupTag',
+        action: 'aws:executeAwsApi',
+        inputs: {
+          Service: 'ec2',
+          Api: 'DeleteTags',
+          Resources: ['{{ DescribeCurrentVolume.VolumeId }}'],
+          Tags: [{ Key: DATA_VOLUME_BACKUP_TAG }],
+        },
+      },
+      {
+        name: 'TagRestoredVolume',
+        action: 'aws:executeAwsApi',
+        inputs: {
+          Service: 'ec2',
+          Api: 'CreateTags',
+          Resources: ['{{ CreateRestoredVolume.VolumeId }}'],
+          Tags: [{ Key: DATA_VOLUME_BACKUP_TAG, Value: stage }],
+        },
+      },
+      // Refuses to start Docker on an empty mount point, so a failed restore never comes up blank
+      runShell('RemountAndStart', [
+        'set -e',
+        `for i in $(seq 1 30); do [ -e ${deviceName} ] && break; sleep 2; done`,
+        `mount ${mountPoint}`,
+        `mountpoint -q ${mountPoint}`,
+        `test -d ${mountPoint}/docker`,
+        'systemctl start docker',
+        `if systemctl cat ${AGENT_SERVICE} > /dev/null 2>&1; then systemctl start ${AGENT_SERVICE}; fi`,
+      ]),
+    ],
+  };
+}
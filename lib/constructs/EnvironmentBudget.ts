@@ -0,0 +1,59 @@
+import { Construct } from 'constructs';
+import * as budgets from 'aws-cdk-lib/aws-budgets';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import { BudgetConfig } from '../config/environments';
+import { ENV_TAG } from '../config/tags';
+
+export interface EnvironmentBudgetProps {
+  envName: string;
+  budget: BudgetConfig;
+  notificationTopic: sns.ITopic;
+}
+
+/**
+ * Monthly cost budget over everything tagged with an environment's HealthEnv
+ * tag, notifying a topic as actual and forecast cost cross the configured
+ * thresholds. HealthEnv must be activated as a cost allocation tag in Billing
+ * for the filter to match anything.
+ */
+export class EnvironmentBudget extends Construct {
+  public readonly budget: budgets.CfnBudget;
+
+  constructor(scope: Construct, id: string, props: EnvironmentBudgetProps) {
+    super(scope, id);
+
+    const { envName, budget, notificationTopic } = props;
+
+    notificationTopic.addToResourcePolicy(new iam.PolicyStatement({
+      actions: ['sns:Publish'],
+      principals: [new iam.ServicePrincipal('budgets.amazonaws.com')],
+      resources: [notificationTopic.topicArn],
+    }));
+
+    const subscribers = [{ subscriptionType: 'SNS', address: notificationTopic.topicArn }];
+    const notification = (notificationType: 'ACTUAL' | 'FORECASTED', threshold: number) => ({
+      notification: {
+        notificationType,
+        comparisonOperator: 'GREATER_THAN',
+        threshold,
+        thresholdType: 'PERCENTAGE',
+      },
+      subscribers,
+    });
+
+    this.budget = new budgets.CfnBudget(this, 'Budget', {
+      budget: {
+        budgetName: `health-${envName}-monthly`,
+        budgetType: 'COST',
+        timeUnit: 'MONTHLY',
+        budgetLimit: { amount: budget.monthlyLimitUsd, unit: 'USD' },
+        costFilters: { TagKeyValue: [`user:${ENV_TAG}$${envName}`] },
+      },
+      notificationsWithSubscribers: [
+        ...budget.actualThresholdsPercent.map((threshold) => notification('ACTUAL', threshold)),
+        notification('FORECASTED', budget.forecastThresholdPercent),
+      ],
+    });
+  }
+}
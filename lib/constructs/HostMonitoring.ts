@@ -0,0 +1,214 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as cwActions from 'aws-cdk-lib/aws-cloudwatch-actions';
+import { StageName } from '../config/environments';
+
+export interface HostMonitoringProps {
+  stage: StageName;
+  // Metrics and alarms follow the group, so they survive the host being replaced
+  autoScalingGroupName: string;
+  // userData and role of the monitored host; the agent is installed through them
+  userData: ec2.UserData;
+  role: iam.IRole;
+  logRetention?: logs.RetentionDays;
+  dataDiskAlarmPercent?: number;
+  // Alarm when nginx returns more than this many 5xx / 429 responses in 5 minutes
+  http5xxThreshold?: number;
+  http429Threshold?: number;
+}
+
+// systemd unit the agent package installs
+export const AGENT_SERVICE = 'amazon-cloudwatch-agent';
+const AGENT_CONFIG_PATH = '/opt/aws/amazon-cloudwatch-agent/etc/amazon-cloudwatch-agent.json';
+const AGENT_NAMESPACE = 'CWAgent';
+const NGINX_NAMESPACE = 'HealthNginx';
+const DISK_PATHS = ['/', '/data'];
+
+// nginx "combined" access log: $remote_addr - $remote_user [$time_local] "$request" $status ...
+const ACCESS_LOG_FIELDS = ['ip', 'dash', 'user', 'timestamp', 'request', 'status', 'bytes', 'referrer', 'agent'];
+
+/**
+ * CloudWatch agent, log shipping, alarms and a dashboard for a single
+ * docker-compose host. Alarms notify `alarmTopic`.
+ */
+export class HostMonitoring extends Construct {
+  public readonly alarmTopic: sns.Topic;
+  public readonly alarms: cloudwatch.Alarm[];
+  public readonly dashboard: cloudwatch.Dashboard;
+
+  constructor(scope: Construct, id: string, props: HostMonitoringProps) {
+    super(scope, id);
+
+    const {
+      stage,
+      autoScalingGroupName,
+      logRetention = logs.RetentionDays.ONE_MONTH,
+      dataDiskAlarmPercent = 80,
+      http5xxThreshold = 10,
+      http429Threshold = 50,
+    } = props;
+
+    // Fixed names so the agent config on the host can refer to them without tokens
+    const logGroupName = (path: string) => `/health/${stage}/${path}`;
+    const logGroup = (name: string, path: string) => new logs.LogGroup(this, name, {
+      logGroupName: logGroupName(path),
+      retention: logRetention,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+    const accessLogs = logGroup('NginxAccessLogs', 'nginx/access');
+    const errorLogs = logGroup('NginxErrorLogs', 'nginx/error');
+    logGroup('ContainerLogs', 'docker');
+    const collect = (filePath: string, path: string) => ({
+      file_path: filePath,
+      log_group_name: logGroupName(path),
+      log_stream_name: '{instance_id}',
+    });
+
+    props.role.addManagedPolicy(iam.ManagedPolicy.fromAwsManagedPolicyName('CloudWatchAgentServerPolicy'));
+
+    const agentConfig = {
+      agent: { metrics_collection_interval: 60 },
+      metrics: {
+        namespace: AGENT_NAMESPACE,
+        append_dimensions: { AutoScalingGroupName: '${aws:AutoScalingGroupName}', InstanceId: '${aws:InstanceId}' },
+        // Publish disk metrics keyed only by group and mount so alarms can address /data directly
+        aggregation_dimensions: [['AutoScalingGroupName'], ['AutoScalingGroupName', 'path']],
+        metrics_collected: {
+          cpu: { measurement: ['cpu_usage_idle', 'cpu_usage_user', 'cpu_usage_system'], totalcpu: true },
+          mem: { measurement: ['mem_used_percent'] },
+          disk: { measurement: ['used_percent'], resources: DISK_PATHS },
+        },
+      },
+      logs: {
+        logs_collected: {
+          files: {
+            collect_list: [
+              collect('/var/log/nginx/access.log', 'nginx/access'),
+              collect('/var/log/nginx/error.log', 'nginx/error'),
+              // Docker's data root lives on the /data volume
+              collect('/data/docker/containers/*/*-json.log', 'docker'),
+            ],
+          },
+        },
+      },
+    };
+
+    props.userData.addCommands(
+      // ---------- CloudWatch Agent ----------
+      "sudo yum install -y amazon-cloudwatch-agent",
+      `sudo tee ${AGENT_CONFIG_PATH} << 'EOF'\n${JSON.stringify(agentConfig, null, 2)}\nEOF`,
+      `sudo /opt/aws/amazon-cloudwatch-agent/bin/amazon-cloudwatch-agent-ctl -a fetch-config -m ec2 -c file:${AGENT_CONFIG_PATH} -s`,
+    );
+
+    const accessLogFilter = (name: string, metricName: string, pattern: logs.IFilterPattern) =>
+      new logs.MetricFilter(this, name, {
+        logGroup: accessLogs,
+        metricNamespace: `${NGINX_NAMESPACE}/${stage}`,
+        metricName,
+        filterPattern: pattern,
+        metricValue: '1',
+        defaultValue: 0,
+      }).metric({ statistic: cloudwatch.Stats.SUM, period: cdk.Duration.minutes(5) });
+
+    const http5xx = accessLogFilter('Http5xxFilter', 'Http5xx',
+      logs.FilterPattern.spaceDelimited(...ACCESS_LOG_FIELDS).whereNumber('status', '>=', 500));
+    const http429 = accessLogFilter('Http429Filter', 'Http429',
+      logs.FilterPattern.spaceDelimited(...ACCESS_LOG_FIELDS).whereNumber('status', '=', 429));
+
+    const agentMetric = (metricName: string, dimensions: Record<string, string>) => new cloudwatch.Metric({
+      namespace: AGENT_NAMESPACE,
+      metricName,
+      dimensionsMap: { AutoScalingGroupName: autoScalingGroupName, ...dimensions },
+      period: cdk.Duration.minutes(5),
+      statistic: cloudwatch.Stats.MAXIMUM,
+    });
+    const diskUsed = (path: string) => agentMetric('disk_used_percent', { path });
+    const memUsed = agentMetric('mem_used_percent', {});
+    const cpuUtilization = new cloudwatch.Metric({
+      namespace: 'AWS/EC2',
+      metricName: 'CPUUtilization',
+      dimensionsMap: { AutoScalingGroupName: autoScalingGroupName },
+      period: cdk.Duration.minutes(5),
+    });
+    const statusCheckFailed = new cloudwatch.Metric({
+      namespace: 'AWS/EC2',
+      metricName: 'StatusCheckFailed',
+      dimensionsMap: { AutoScalingGroupName: autoScalingGroupName },
+      period: cdk.Duration.minutes(1),
+      statistic: cloudwatch.Stats.MAXIMUM,
+    });
+
+    this.alarmTopic = new sns.Topic(this, 'AlarmTopic', {
+      displayName: `Health ${stage} host alarms`,
+    });
+    const alarmAction = new cwActions.SnsAction(this.alarmTopic);
+
+    this.alarms = [
+      new cloudwatch.Alarm(this, 'DataDiskAlarm', {
+        alarmDescription: `/data is more than ${dataDiskAlarmPercent}% full on the ${stage} host (Docker + Cassandra)`,
+        metric: diskUsed('/data'),
+        threshold: dataDiskAlarmPercent,
+        evaluationPeriods: 1,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.BREACHING,
+      }),
+      new cloudwatch.Alarm(this, 'StatusCheckAlarm', {
+        alarmDescription: `EC2 status checks failing on the ${stage} host`,
+        metric: statusCheckFailed,
+        threshold: 1,
+        evaluationPeriods: 2,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.BREACHING,
+      }),
+      new cloudwatch.Alarm(this, 'Http5xxAlarm', {
+        alarmDescription: `nginx returned more than ${http5xxThreshold} 5xx responses in 5 minutes on ${stage}`,
+        metric: http5xx,
+        threshold: http5xxThreshold,
+        evaluationPeriods: 1,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      }),
+      new cloudwatch.Alarm(this, 'Http429Alarm', {
+        alarmDescription: `nginx rate limited more than ${http429Threshold} requests in 5 minutes on ${stage}`,
+        metric: http429,
+        threshold: http429Threshold,
+        evaluationPeriods: 1,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      }),
+    ];
+    this.alarms.forEach((alarm) => {
+      alarm.addAlarmAction(alarmAction);
+      alarm.addOkAction(alarmAction);
+    });
+
+    this.dashboard = new cloudwatch.Dashboard(this, 'Dashboard', {
+      dashboardName: `Health-${stage}`,
+      widgets: [
+        [
+          new cloudwatch.GraphWidget({ title: 'CPU utilization (%)', left: [cpuUtilization] }),
+          new cloudwatch.GraphWidget({ title: 'Memory used (%)', left: [memUsed] }),
+          new cloudwatch.GraphWidget({
+            title: 'Disk used (%)',
+            left: DISK_PATHS.map((path) => diskUsed(path).with({ label: path })),
+            leftAnnotations: [{ value: dataDiskAlarmPercent, label: '/data alarm' }],
+          }),
+        ],
+        [
+          new cloudwatch.GraphWidget({ title: 'nginx 5xx / 429 (per 5 min)', left: [http5xx.with({ label: '5xx' }), http429.with({ label: '429' })] }),
+          new cloudwatch.GraphWidget({ title: 'Status check failed', left: [statusCheckFailed] }),
+          new cloudwatch.LogQueryWidget({
+            title: 'Recent nginx errors',
+            logGroupNames: [errorLogs.logGroupName],
+            queryLines: ['fields @timestamp, @message', 'sort @timestamp desc', 'limit 20'],
+          }),
+        ],
+      ],
+    });
+  }
+}
@@ -0,0 +1,87 @@
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as scheduler from 'aws-cdk-lib/aws-scheduler';
+import * as targets from 'aws-cdk-lib/aws-scheduler-targets';
+import { InstanceScheduleConfig } from '../config/environments';
+import { ENV_TAG } from '../config/tags';
+
+export interface InstanceSchedulerProps {
+  // HealthEnv tag of the instances to stop and start
+  envName: string;
+  schedule: InstanceScheduleConfig;
+  // Alarms whose actions are disabled while the instances are stopped
+  alarms?: cloudwatch.IAlarm[];
+}
+
+// Tag an instance with `HealthScheduleSkip=<YYYY-MM-DD>` to skip that day's stop and start
+export const SCHEDULE_SKIP_TAG = 'HealthScheduleSkip';
+
+// Auto Scaling processes suspended while a group's host is stopped, so it is not replaced as unhealthy
+export const STOPPED_HOST_PROCESSES = ['HealthCheck', 'ReplaceUnhealthy'];
+
+/**
+ * Stops and starts the instances tagged for an environment on an EventBridge
+ * Scheduler cron in the configured time zone. The function only touches
+ * instances and Auto Scaling groups carrying the environment's HealthEnv tag.
+ */
+export class InstanceScheduler extends Construct {
+  public readonly function: lambda.Function;
+
+  constructor(scope: Construct, id: string, props: InstanceSchedulerProps) {
+    super(scope, id);
+
+    const { envName, schedule, alarms = [] } = props;
+    const stack = cdk.Stack.of(this);
+
+    this.function = new lambda.Function(this, 'Function', {
+      runtime: lambda.Runtime.NODEJS_24_X,
+      handler: 'index.handler',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../../lambda/instance-scheduler')),
+      environment: { ENV_TAG, SKIP_TAG: SCHEDULE_SKIP_TAG, SUSPENDED_PROCESSES: STOPPED_HOST_PROCESSES.join(',') },
+      // Starts wait for the hosts to run before their groups may health check them again
+      timeout: cdk.Duration.minutes(5),
+      description: `Stops and starts ${envName} instances on a schedule`,
+    });
+    this.function.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['ec2:DescribeInstances', 'autoscaling:DescribeAutoScalingGroups'],
+      resources: ['*'],
+    }));
+    this.function.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['ec2:StopInstances', 'ec2:StartInstances'],
+      resources: [stack.formatArn({ service: 'ec2', resource: 'instance', resourceName: '*' })],
+      conditions: { StringEquals: { [`aws:ResourceTag/${ENV_TAG}`]: envName } },
+    }));
+    this.function.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['autoscaling:SuspendProcesses', 'autoscaling:ResumeProcesses'],
+      resources: ['*'],
+      conditions: { StringEquals: { [`autoscaling:ResourceTag/${ENV_TAG}`]: envName } },
+    }));
+    if (alarms.length > 0) {
+      this.function.addToRolePolicy(new iam.PolicyStatement({
+        actions: ['cloudwatch:DisableAlarmActions', 'cloudwatch:EnableAlarmActions'],
+        resources: alarms.map((alarm) => alarm.alarmArn),
+      }));
+    }
+
+    const addSchedule = (action: 'stop' | 'start', cron: InstanceScheduleConfig['stop']) =>
+      new scheduler.Schedule(this, action === 'stop' ? 'StopSchedule' : 'StartSchedule', {
+        description: `${action === 'stop' ? 'Stops' : 'Starts'} ${envName} instances`,
+        schedule: scheduler.ScheduleExpression.cron({ ...cron, timeZone: schedule.timeZone }),
+        target: new targets.LambdaInvoke(this.function, {
+          input: scheduler.ScheduleTargetInput.fromObject({
+            action,
+            envName,
+            timeZone: schedule.timeZone.timezoneName,
+            alarmNames: alarms.map((alarm) => alarm.alarmName),
+          }),
+          retryAttempts: 2,
+        }),
+      });
+    addSchedule('stop', schedule.stop);
+    addSchedule('start', schedule.start);
+  }
+}
@@ -0,0 +1,107 @@
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as chatbot from 'aws-cdk-lib/aws-chatbot';
+import * as codepipeline from 'aws-cdk-lib/aws-codepipeline';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as notifications from 'aws-cdk-lib/aws-codestarnotifications';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import * as subscriptions from 'aws-cdk-lib/aws-sns-subscriptions';
+import { NotificationConfig } from '../config/notifications';
+
+export interface PipelineNotificationsProps extends NotificationConfig {
+  pipeline: codepipeline.IPipeline;
+  // Log group deploy commands send their full output to; the digest tails it instead of the truncated output
+  commandOutput?: logs.ILogGroup;
+}
+
+// Pipeline and stage state changes worth a message; action-level failures get the digest instead
+const NOTIFIED_EVENTS = [
+  codepipeline.PipelineNotificationEvents.PIPELINE_EXECUTION_STARTED,
+  codepipeline.PipelineNotificationEvents.PIPELINE_EXECUTION_SUCCEEDED,
+  codepipeline.PipelineNotificationEvents.PIPELINE_EXECUTION_FAILED,
+  codepipeline.PipelineNotificationEvents.STAGE_EXECUTION_SUCCEEDED,
+  codepipeline.PipelineNotificationEvents.STAGE_EXECUTION_FAILED,
+  codepipeline.PipelineNotificationEvents.MANUAL_APPROVAL_NEEDED,
+];
+
+/**
+ * Pipeline and stage state changes sent through a CodeStar Notifications rule
+ * to an SNS topic with optional email and Slack subscriptions, plus a failure
+ * digest for every failed action: where it failed, the CodeBuild log link and
+ * the tail of the deploy's SSM command output.
+ */
+export class PipelineNotifications extends Construct {
+  public readonly topic: sns.Topic;
+  public readonly digestFunction: lambda.Function;
+
+  constructor(scope: Construct, id: string, props: PipelineNotificationsProps) {
+    super(scope, id);
+
+    const { pipeline, emails, slack } = props;
+    const stack = cdk.Stack.of(this);
+
+    this.topic = new sns.Topic(this, 'Topic', {
+      displayName: 'Health pipeline notifications',
+    });
+    emails.forEach((email) => this.topic.addSubscription(new subscriptions.EmailSubscription(email)));
+    if (slack) {
+      new chatbot.SlackChannelConfiguration(this, 'Slack', {
+        slackChannelConfigurationName: 'health-pipeline',
+        slackWorkspaceId: slack.workspaceId,
+        slackChannelId: slack.channelId,
+        notificationTopics: [this.topic],
+      });
+    }
+
+    new notifications.NotificationRule(this, 'StateChanges', {
+      source: pipeline,
+      events: NOTIFIED_EVENTS,
+      targets: [this.topic],
+      detailType: notifications.DetailType.FULL,
+    });
+
+    this.digestFunction = new lambda.Function(this, 'DigestFunction', {
+      runtime: lambda.Runtime.NODEJS_24_X,
+      handler: 'index.handler',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../../lambda/pipeline-digest')),
+      environment: { TOPIC_ARN: this.topic.topicArn },
+      timeout: cdk.Duration.seconds(30),
+      description: `Publishes a digest of failed ${pipeline.pipelineName} actions`,
+    });
+    this.topic.grantPublish(this.digestFunction);
+    this.digestFunction.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['codebuild:BatchGetBuilds'],
+      resources: [stack.formatArn({ service: 'codebuild', resource: 'project', resourceName: '*' })],
+    }));
+    this.digestFunction.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['logs:GetLogEvents'],
+      resources: [stack.formatArn({
+        service: 'logs',
+        resource: 'log-group',
+        resourceName: '/aws/codebuild/*',
+        arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+      })],
+    }));
+    props.commandOutput?.grant(this.digestFunction, 'logs:GetLogEvents');
+    // Command invocations have no resource-level permissions
+    this.digestFunction.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['ssm:ListCommandInvocations', 'ssm:GetCommandInvocation'],
+      resources: ['*'],
+    }));
+
+    new events.Rule(this, 'ActionFailed', {
+      description: `Builds a digest of failed ${pipeline.pipelineName} actions`,
+      eventPattern: {
+        source: ['aws.codepipeline'],
+        detailType: ['CodePipeline Action Execution State Change'],
+        detail: { pipeline: [pipeline.pipelineName], state: ['FAILED'] },
+      },
+      targets: [new targets.LambdaFunction(this.digestFunction, { retryAttempts: 2 })],
+    });
+  }
+}
@@ -0,0 +1,103 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import * as ssm from 'aws-cdk-lib/aws-ssm';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as cwActions from 'aws-cdk-lib/aws-cloudwatch-actions';
+import { ENV_TAG } from '../config/tags';
+import { installScriptCommand } from '../pipeline/scripts';
+import { CERTIFICATE_BOOTSTRAP_PATH, renderCertificateBootstrapScript } from '../nginx/certbot';
+
+export interface SiteHealthCheck {
+  // HTTPS path probed by the Route 53 health check
+  path: string;
+  alarmTopic: sns.ITopic;
+}
+
+export interface SiteDnsProps {
+  // HealthEnv tag of the host: a stage, or a preview's environment name
+  envName: string;
+  domainName: string;
+  hostedZoneName: string;
+  // Elastic IP of the host
+  ipAddress: string;
+  // Omitted for short-lived hosts nobody is paged about
+  healthCheck?: SiteHealthCheck;
+}
+
+/**
+ * Public DNS and TLS for a single nginx host: an A record on the Elastic IP,
+ * optionally a Route 53 HTTPS health check alarming through its topic, and an SSM
+ * association that issues the certificate once and schedules its renewal.
+ * Deploys only install nginx configs and never touch certificates.
+ */
+export class SiteDns extends Construct {
+  public readonly healthCheck?: route53.HealthCheck;
+  public readonly healthCheckAlarm?: cloudwatch.Alarm;
+
+  constructor(scope: Construct, id: string, props: SiteDnsProps) {
+    super(scope, id);
+
+    const { envName, domainName } = props;
+
+    const zone = route53.HostedZone.fromLookup(this, 'Zone', { domainName: props.hostedZoneName });
+    const record = new route53.ARecord(this, 'Record', {
+      zone,
+      recordName: domainName,
+      target: route53.RecordTarget.fromIpAddresses(props.ipAddress),
+      ttl: cdk.Duration.minutes(5),
+    });
+
+    if (props.healthCheck) {
+      [this.healthCheck, this.healthCheckAlarm] = this.addHealthCheck(domainName, props.healthCheck);
+    }
+
+    // Runs on every host tagged for the stage when it registers with SSM, and again only if the script changes
+    const certificateBootstrap = new ssm.CfnAssociation(this, 'CertificateBootstrap', {
+      name: 'AWS-RunShellScript',
+      associationName: `health-${envName}-certificate-bootstrap`,
+      targets: [{ key: `tag:${ENV_TAG}`, values: [envName] }],
+      parameters: {
+        commands: [
+          installScriptCommand(CERTIFICATE_BOOTSTRAP_PATH, renderCertificateBootstrapScript(domainName)),
+          `bash ${CERTIFICATE_BOOTSTRAP_PATH}`,
+        ],
+        executionTimeout: ['3600'],
+      },
+    });
+    // The HTTP challenge needs the record in place
+    certificateBootstrap.node.addDependency(record);
+  }
+
+  private addHealthCheck(domainName: string, props: SiteHealthCheck): [route53.HealthCheck, cloudwatch.Alarm] {
+    const healthCheck = new route53.HealthCheck(this, 'HealthCheck', {
+      type: route53.HealthCheckType.HTTPS,
+      fqdn: domainName,
+      port: 443,
+      resourcePath: props.path,
+      enableSNI: true,
+      requestInterval: cdk.Duration.seconds(30),
+      failureThreshold: 3,
+    });
+
+    const alarm = new cloudwatch.Alarm(this, 'HealthCheckAlarm', {
+      alarmDescription: `Route 53 health check failing for https://${domainName}${props.path}`,
+      metric: new cloudwatch.Metric({
+        namespace: 'AWS/Route53',
+        metricName: 'HealthCheckStatus',
+        dimensionsMap: { HealthCheckId: healthCheck.healthCheckId },
+        period: cdk.Duration.minutes(1),
+        statistic: cloudwatch.Stats.MINIMUM,
+      }),
+      threshold: 1,
+      evaluationPeriods: 2,
+      comparisonOperator: cloudwatch.ComparisonOperator.LESS_THAN_THRESHOLD,
+      treatMissingData: cloudwatch.TreatMissingData.BREACHING,
+    });
+    const alarmAction = new cwActions.SnsAction(props.alarmTopic);
+    alarm.addAlarmAction(alarmAction);
+    alarm.addOkAction(alarmAction);
+    return [healthCheck, alarm];
+  }
+}
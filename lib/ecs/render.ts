@@ -0,0 +1,84 @@
+import { StageName } from '../config/environments';
+import { ServiceDefinition, imageServices } from '../config/services';
+import { releaseImageKey } from '../release/render';
+
+// Task definition fields register-task-definition accepts back from describe-task-definition
+const TASK_DEFINITION_FIELDS = [
+  'family', 'taskRoleArn', 'executionRoleArn', 'networkMode', 'containerDefinitions', 'volumes',
+  'placementConstraints', 'requiresCompatibilities', 'cpu', 'memory', 'runtimePlatform',
+];
+
+export function ecsClusterName(stage: StageName): string {
+  return `health-${stage}`;
+}
+
+/** ECS service and task definition family of an image service; its container is named after the compose service. */
+export function ecsServiceName(stage: StageName, service: ServiceDefinition): string {
+  return `health-${stage}-${service.image!.composeService}`;
+}
+
+/**
+ * SSM parameter holding the image a service last deployed healthy, by digest.
+ * Stack deploys start the service from it, so they never roll onto an image
+ * the pipeline has not deployed.
+ */
+export function ecsImageParameterName(stage: StageName, service: ServiceDefinition): string {
+  return `/health/${stage}/ecs/${service.image!.composeService}/image`;
+}
+
+/**
+ * Bash script run in CodeBuild for every deploy to an ECS stage:
+ *   ecs-deploy.sh <release id> <deploy bucket>
+ *
+ * Registers a revision of each service's task definition with the image
+ * digest the Package stage recorded for the release, rolls every service onto
+ * it and waits for them to settle. Services deploy with the circuit breaker,
+ * so a release that never gets healthy is rolled back by ECS and the script
+ * exits non-zero. Each service that settled on the release has its image
+ * recorded in its image parameter.
+ */
+export function renderEcsDeployScript(stage: StageName, services: ServiceDefinition[]): string {
+  const deployed = imageServices(services);
+  const names = deployed.map((service) => ecsServiceName(stage, service));
+  const fields = TASK_DEFINITION_FIELDS.map((field) => `${field}: .${field}`).join(', ');
+  return [
+    '#!/bin/bash',
+    'set -euo pipefail',
+    'RELEASE_ID="$1"',
+    'BUCKET="$2"',
+    `CLUSTER=${ecsClusterName(stage)}`,
+    'declare -A REVISIONS IMAGES PARAMETERS',
+    ...deployed.map((service, index) => `PARAMETERS[${names[index]}]=${ecsImageParameterName(stage, service)}`),
+    '',
+    '# deploy <service> <container> <image digest key>',
+    'deploy() {',
+    '  local image current',
+    '  image=$(aws s3 cp "s3://$BUCKET/$3" -)',
+    '  current=$(aws ecs describe-services --cluster "$CLUSTER" --services "$1" --query "services[0].taskDefinition" --output text)',
+    '  aws ecs describe-task-definition --task-definition "$current" --query taskDefinition \\',
+    `    | jq --arg container "$2" --arg image "$image" '.containerDefinitions |= map(if .name == $container then .image = $image else . end) | { ${fields} } | with_entries(select(.value != null))' \\`,
+    '    > "$1.json"',
+    '  REVISIONS[$1]=$(aws ecs register-task-definition --cli-input-json "file://$1.json" --query taskDefinition.taskDefinitionArn --output text)',
+    '  IMAGES[$1]=$image',
+    '  aws ecs update-service --cluster "$CLUSTER" --service "$1" --task-definition "${REVISIONS[$1]}" > /dev/null',
+    '  echo "$1 -> ${REVISIONS[$1]} ($image)"',
+    '}',
+    '',
+    ...deployed.map((service, index) =>
+      `deploy ${names[index]} ${service.image!.composeService} ${releaseImageKey('$RELEASE_ID', service.image!.composeService)}`),
+    '',
+    `aws ecs wait services-stable --cluster "$CLUSTER" --services ${names.join(' ')} || echo "Services did not settle in time"`,
+    'FAILED=0',
+    `for SERVICE in ${names.join(' ')}; do`,
+    '  read -r RUNNING STATE <<< "$(aws ecs describe-services --cluster "$CLUSTER" --services "$SERVICE" --query "services[0].deployments[?status==\'PRIMARY\'] | [0].[taskDefinition, rolloutState]" --output text)"',
+    '  if [ "$RUNNING" = "${REVISIONS[$SERVICE]}" ] && [ "$STATE" = "COMPLETED" ]; then',
+    '    echo "✅ $SERVICE is running release $RELEASE_ID"',
+    '    aws ssm put-parameter --name "${PARAMETERS[$SERVICE]}" --value "${IMAGES[$SERVICE]}" --type String --overwrite > /dev/null',
+    '  else',
+    '    echo "❌ $SERVICE is on $RUNNING ($STATE); the circuit breaker rolled back or the deployment is stuck"',
+    '    FAILED=1',
+    '  fi',
+    'done',
+    'exit "$FAILED"',
+  ].join('\n') + '\n';
+}
@@ -0,0 +1,79 @@
+import * as wafv2 from 'aws-cdk-lib/aws-wafv2';
+import { ServiceDefinition, imageServices } from '../config/services';
+import { NginxSite, UpstreamRoute } from '../nginx/routes';
+
+// WAF counts requests per IP over this window; the shortest it offers
+const RATE_WINDOW_SECONDS = 60;
+// Lowest limit a rate-based rule accepts
+const MIN_RATE_LIMIT = 10;
+
+export interface RouteTarget {
+  route: UpstreamRoute;
+  // Image service whose port the route proxies to
+  service: ServiceDefinition;
+  // Listener rule path patterns; omitted for the `/` route, which becomes the default action
+  pathPatterns?: string[];
+}
+
+/**
+ * The nginx routes as ALB listener targets: each route goes to the image
+ * service serving its upstream port, `/` is the default and every other
+ * prefix gets a path-pattern rule.
+ */
+export function routeTargets(site: NginxSite, services: ServiceDefinition[]): RouteTarget[] {
+  return site.routes.map((route) => {
+    const service = imageServices(services).find((candidate) => candidate.image!.port === route.upstreamPort);
+    if (!service) {
+      throw new Error(`No image service serves port ${route.upstreamPort} for route ${route.pathPrefix}`);
+    }
+    return route.pathPrefix === '/' ? { route, service } : { route, service, pathPatterns: [`${route.pathPrefix}*`] };
+  });
+}
+
+/** Requests per WAF window for an nginx rate such as `5r/s` or `30r/m`. */
+export function wafRateLimit(rate: string): number {
+  const match = /^(\d+)r\/([sm])$/.exec(rate);
+  if (!match) {
+    throw new Error(`Unsupported nginx rate '${rate}'`);
+  }
+  const perWindow = Number(match[1]) * (match[2] === 's' ? RATE_WINDOW_SECONDS : RATE_WINDOW_SECONDS / 60);
+  return Math.max(Math.ceil(perWindow), MIN_RATE_LIMIT);
+}
+
+function pathPrefixMatch(pathPrefix: string): wafv2.CfnWebACL.StatementProperty {
+  return {
+    byteMatchStatement: {
+      searchString: pathPrefix,
+      fieldToMatch: { uriPath: {} },
+      textTransformations: [{ priority: 0, type: 'NONE' }],
+      positionalConstraint: 'STARTS_WITH',
+    },
+  };
+}
+
+/**
+ * WAF rate-based rules equivalent to the nginx `limit_req` zones: one rule per
+ * zone, counting per client IP on the paths of the routes using it and
+ * answering 429 like nginx. WAF has no burst; its window absorbs short spikes.
+ */
+export function rateLimitRules(site: NginxSite): wafv2.CfnWebACL.RuleProperty[] {
+  return site.rateLimitZones
+    .map((zone) => ({ zone, prefixes: site.routes.filter((route) => route.rateLimitZone === zone.name).map((route) => route.pathPrefix) }))
+    .filter(({ prefixes }) => prefixes.length > 0)
+    .map(({ zone, prefixes }, priority) => ({
+      name: zone.name,
+      priority,
+      action: { block: { customResponse: { responseCode: 429 } } },
+      statement: {
+        rateBasedStatement: {
+          limit: wafRateLimit(zone.rate),
+          evaluationWindowSec: RATE_WINDOW_SECONDS,
+          aggregateKeyType: 'IP',
+          scopeDownStatement: prefixes.length === 1
+            ? pathPrefixMatch(prefixes[0])
+            : { orStatement: { statements: prefixes.map(pathPrefixMatch) } },
+        },
+      },
+      visibilityConfig: { sampledRequestsEnabled: true, cloudWatchMetricsEnabled: true, metricName: zone.name },
+    }));
+}
@@ -0,0 +1,40 @@
+export interface ProbeTiming {
+  // Per-attempt timeout for a single probe
+  timeoutSeconds: number;
+  maxAttempts: number;
+  // Delay before the second attempt; doubled after every failure up to maxBackoffSeconds
+  initialBackoffSeconds: number;
+  maxBackoffSeconds: number;
+}
+
+/** HTTPS request through nginx on the environment domain. */
+export interface HttpProbe {
+  type: 'http';
+  path: string;
+  expectedStatus: number;
+}
+
+/** Plain TCP connect on the instance, for services nginx does not front. */
+export interface TcpProbe {
+  type: 'tcp';
+  port: number;
+}
+
+/** Container must be running and not restarted for minUptimeSeconds. */
+export interface ContainerProbe {
+  type: 'container';
+  minUptimeSeconds: number;
+}
+
+export type ReadinessProbe = (HttpProbe | TcpProbe | ContainerProbe) & { timing?: Partial<ProbeTiming> };
+
+export const DEFAULT_PROBE_TIMING: ProbeTiming = {
+  timeoutSeconds: 5,
+  maxAttempts: 10,
+  initialBackoffSeconds: 10,
+  maxBackoffSeconds: 60,
+};
+
+export function resolveTiming(probe: ReadinessProbe): ProbeTiming {
+  return { ...DEFAULT_PROBE_TIMING, ...probe.timing };
+}
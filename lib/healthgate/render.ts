@@ -0,0 +1,229 @@
+import { ServiceDefinition } from '../config/services';
+import { ENV_TAG } from '../config/tags';
+import { STOPPED_HOST_PROCESSES } from '../constructs/InstanceScheduler';
+import { ReadinessProbe, resolveTiming } from './probes';
+
+// Longest the gate waits for all services together; their retry budgets alone add up to far more
+export const HEALTH_GATE_DEADLINE_SECONDS = 600;
+
+// SSM Run Command statuses that mean the invocation is still going
+const SSM_PENDING_STATUSES = ['Pending', 'InProgress', 'Delayed', 'Cancelling'];
+
+function probeCommand(probe: ReadinessProbe, container: string): string {
+  const { timeoutSeconds } = resolveTiming(probe);
+  switch (probe.type) {
+    case 'http':
+      return `probe_http ${probe.path} ${probe.expectedStatus} ${timeoutSeconds}`;
+    case 'tcp':
+      return `probe_tcp ${probe.port} ${timeoutSeconds}`;
+    case 'container':
+      return `probe_uptime ${container} ${probe.minUptimeSeconds}`;
+  }
+}
+
+/**
+ * Bash script run on the instance after `docker-compose up`. Every container
+ * in the registry must be running, and its readiness probe must pass within
+ * the probe's retry budget and the gate's overall deadline. Prints one line
+ * per service and exits non-zero if any service failed.
+ */
+export function renderHealthGateScript(
+  services: ServiceDefinition[],
+  domainName: string,
+  deadlineSeconds: number = HEALTH_GATE_DEADLINE_SECONDS,
+): string {
+  const checks = services
+    .filter((service) => service.containerName !== undefined)
+    .map((service) => {
+      const probe: ReadinessProbe = service.readinessProbe ?? { type: 'container', minUptimeSeconds: 30 };
+      const timing = resolveTiming(probe);
+      return `wait_for ${service.name} ${service.containerName} ${timing.maxAttempts} ${timing.initialBackoffSeconds} ${timing.maxBackoffSeconds} ${probeCommand(probe, service.containerName!)}`;
+    });
+
+  return [
+    '#!/bin/bash',
+    '# Post-deploy health gate, generated from the HealthCDK service registry',
+    'set -u',
+    `DOMAIN=${domainName}`,
+    `DEADLINE=$(( $(date +%s) + ${deadlineSeconds} ))`,
+    'REPORT=()',
+    'FAILED=0',
+    '',
+    'probe_http() {',
+    '  local code',
+    '  code=$(curl -s -o /dev/null -w "%{http_code}" --max-time "$3" --resolve "$DOMAIN:443:127.0.0.1" "https://$DOMAIN$1")',
+    '  [ "$code" = "$2" ] && return 0',
+    '  echo "GET $1 returned $code, expected $2"',
+    '  return 1',
+    '}',
+    '',
+    'probe_tcp() {',
+    '  timeout "$2" bash -c "</dev/tcp/127.0.0.1/$1" 2>/dev/null && return 0',
+    '  echo "tcp/$1 not accepting connections"',
+    '  return 1',
+    '}',
+    '',
+    'probe_uptime() {',
+    '  local started uptime',
+    '  started=$(docker inspect -f "{{.State.StartedAt}}" "$1")',
+    '  uptime=$(( $(date +%s) - $(date -d "$started" +%s) ))',
+    '  [ "$uptime" -ge "$2" ] && return 0',
+    '  echo "up for ${uptime}s, waiting for ${2}s without a restart"',
+    '  return 1',
+    '}',
+    '',
+    '# wait_for <service> <container> <attempts> <backoff> <max backoff> <probe...>',
+    'wait_for() {',
+    '  local name="$1" container="$2" attempts="$3" delay="$4" max_delay="$5"',
+    '  shift 5',
+    '  local attempt=1 state detail restarts',
+    '  while true; do',
+    '    state=$(docker inspect -f "{{.State.Status}}" "$container" 2>/dev/null || echo missing)',
+    '    if [ "$state" = "running" ]; then',
+    '      if detail=$("$@" 2>&1); then',
+    '        REPORT+=("$(printf "%-24s PASS  ready after %d attempt(s)" "$name" "$attempt")")',
+    '        return 0',
+    '      fi',
+    '    else',
+    '      detail="container $container is $state"',
+    '    fi',
+    '    echo "[$name] attempt $attempt/$attempts: $detail"',
+    '    # Past the deadline every remaining service gets one attempt',
+    '    if [ "$attempt" -lt "$attempts" ] && [ $(( $(date +%s) + delay )) -gt "$DEADLINE" ]; then',
+    `      detail="$detail; gate deadline of ${deadlineSeconds}s reached"`,
+    '      attempts=$attempt',
+    '    fi',
+    '    if [ "$attempt" -ge "$attempts" ]; then',
+    '      restarts=$(docker inspect -f "{{.RestartCount}}" "$container" 2>/dev/null || echo n/a)',
+    '      REPORT+=("$(printf "%-24s FAIL  %s (restarts: %s)" "$name" "$detail" "$restarts")")',
+    '      FAILED=1',
+    '      return 1',
+    '    fi',
+    '    sleep "$delay"',
+    '    attempt=$((attempt + 1))',
+    '    delay=$((delay * 2 > max_delay ? max_delay : delay * 2))',
+    '  done',
+    '}',
+    '',
+    ...checks,
+    '',
+    'echo "==== HEALTH GATE REPORT ===="',
+    'printf "%s\\n" "${REPORT[@]}"',
+    'if [ "$FAILED" -ne 0 ]; then',
+    '  docker ps -a --format "table {{.Names}}\\t{{.Status}}"',
+    '  exit 1',
+    'fi',
+  ].join('\n') + '\n';
+}
+
+/**
+ * Bash script run in CodeBuild that polls an SSM Run Command until every
+ * invocation reaches a terminal status, then prints each instance's stdout
+ * and stderr. Exits non-zero unless every invocation succeeded.
+ */
+export function renderSsmWaitScript(timeoutSeconds: number, pollSeconds: number = 15): string {
+  return [
+    '#!/bin/bash',
+    'set -u',
+    'COMMAND_ID="$1"',
+    `DEADLINE=$(( $(date +%s) + ${timeoutSeconds} ))`,
+    '',
+    'while true; do',
+    '  INVOCATIONS=$(aws ssm list-command-invocations --command-id "$COMMAND_ID" --query "CommandInvocations[].[InstanceId,Status]" --output text)',
+    '  if [ -z "$INVOCATIONS" ]; then',
+    '    read -r COMMAND_STATUS TARGETS <<< "$(aws ssm list-commands --command-id "$COMMAND_ID" --query "Commands[0].[Status,TargetCount]" --output text)"',
+    `    if [ "$TARGETS" = "0" ] && ! echo " ${SSM_PENDING_STATUSES.join(' ')} " | grep -q " $COMMAND_STATUS "; then`,
+    '      echo "❌ SSM command $COMMAND_ID matched no instances (status: $COMMAND_STATUS)"',
+    '      exit 1',
+    '    fi',
+    '    echo "Waiting for SSM command $COMMAND_ID to reach an instance..."',
+    '  else',
+    '    PENDING=0',
+    '    while read -r INSTANCE STATUS; do',
+    '      echo "Current SSM status on $INSTANCE: $STATUS"',
+    '      case "$STATUS" in',
+    `        ${SSM_PENDING_STATUSES.join('|')}) PENDING=1 ;;`,
+    '      esac',
+    '    done <<< "$INVOCATIONS"',
+    '    [ "$PENDING" -eq 0 ] && break',
+    '  fi',
+    '  if [ "$(date +%s)" -ge "$DEADLINE" ]; then',
+    `    echo "⚠️ Timed out after ${timeoutSeconds}s waiting for SSM command $COMMAND_ID"`,
+    '    exit 1',
+    '  fi',
+    `  sleep ${pollSeconds}`,
+    'done',
+    '',
+    'RESULT=0',
+    'while read -r INSTANCE STATUS; do',
+    '  echo "==== $INSTANCE: $STATUS ===="',
+    '  echo "---- stdout ----"',
+    '  aws ssm get-command-invocation --command-id "$COMMAND_ID" --instance-id "$INSTANCE" --query StandardOutputContent --output text',
+    '  echo "---- stderr ----"',
+    '  aws ssm get-command-invocation --command-id "$COMMAND_ID" --instance-id "$INSTANCE" --query StandardErrorContent --output text',
+    '  [ "$STATUS" = "Success" ] || RESULT=1',
+    'done <<< "$INVOCATIONS"',
+    '',
+    'if [ "$RESULT" -eq 0 ]; then',
+    '  echo "✅ Deployment completed"',
+    'else',
+    '  echo "❌ Deployment failed"',
+    'fi',
+    'exit "$RESULT"',
+  ].join('\n') + '\n';
+}
+
+/**
+ * Bash script run in CodeBuild before an SSM deploy. Starts any host tagged
+ * for the environment that a schedule stopped, undoes the rest of the
+ * schedule's stop by resuming its Auto Scaling processes and enabling its
+ * alarm actions, then waits until SSM reports it online, so the send-command
+ * that follows reaches it. Takes the environment's HealthEnv tag value as its
+ * only argument.
+ */
+export function renderStartStoppedHostsScript(timeoutSeconds: number, pollSeconds: number = 10): string {
+  const hosts = (state: string) =>
+    `aws ec2 describe-instances --filters "Name=tag:${ENV_TAG},Values=$ENV_NAME" "Name=instance-state-name,Values=${state}" --query "Reservations[].Instances[].InstanceId" --output text`;
+  return [
+    '#!/bin/bash',
+    'set -euo pipefail',
+    'ENV_NAME="$1"',
+    '',
+    '# A host caught mid-stop has to finish stopping before it can be started',
+    `STOPPING=$(${hosts('stopping')})`,
+    'if [ -n "$STOPPING" ]; then',
+    '  echo "Waiting for $STOPPING to finish stopping..."',
+    '  aws ec2 wait instance-stopped --instance-ids $STOPPING',
+    'fi',
+    `STOPPED=$(${hosts('stopped')})`,
+    'if [ -z "$STOPPED" ]; then',
+    '  echo "No stopped $ENV_NAME hosts"',
+    '  exit 0',
+    'fi',
+    '',
+    'echo "Starting stopped $ENV_NAME hosts: $STOPPED"',
+    'aws ec2 start-instances --instance-ids $STOPPED > /dev/null',
+    'aws ec2 wait instance-running --instance-ids $STOPPED',
+    '# The schedule kept the groups from replacing their stopped hosts; let them heal again',
+    `for GROUP in $(aws autoscaling describe-auto-scaling-groups --filters "Name=tag:${ENV_TAG},Values=$ENV_NAME" --query "AutoScalingGroups[].AutoScalingGroupName" --output text); do`,
+    `  aws autoscaling resume-processes --auto-scaling-group-name "$GROUP" --scaling-processes ${STOPPED_HOST_PROCESSES.join(' ')}`,
+    'done',
+    '# The schedule also muted the environment\'s alarms until its next start; the hosts are up again now',
+    `ALARMS=$(aws resourcegroupstaggingapi get-resources --resource-type-filters cloudwatch:alarm --tag-filters "Key=${ENV_TAG},Values=$ENV_NAME" --query "ResourceTagMappingList[].ResourceARN" --output text)`,
+    'if [ -n "$ALARMS" ]; then',
+    '  aws cloudwatch enable-alarm-actions --alarm-names $(for ARN in $ALARMS; do echo "${ARN##*:alarm:}"; done)',
+    'fi',
+    `DEADLINE=$(( $(date +%s) + ${timeoutSeconds} ))`,
+    'for INSTANCE in $STOPPED; do',
+    '  until [ "$(aws ssm describe-instance-information --filters "Key=InstanceIds,Values=$INSTANCE" --query "InstanceInformationList[0].PingStatus" --output text)" = "Online" ]; do',
+    '    if [ "$(date +%s)" -ge "$DEADLINE" ]; then',
+    `      echo "❌ $INSTANCE did not come online in SSM within ${timeoutSeconds}s"`,
+    '      exit 1',
+    '    fi',
+    '    echo "Waiting for $INSTANCE to come online in SSM..."',
+    `    sleep ${pollSeconds}`,
+    '  done',
+    '  echo "✅ $INSTANCE is online"',
+    'done',
+  ].join('\n') + '\n';
+}
@@ -0,0 +1,157 @@
+import { buildSite } from '../nginx/routes';
+import { renderBootstrapConfig } from '../nginx/render';
+
+// Second EBS volume holding Docker's data root and Cassandra
+export const DATA_DEVICE = '/dev/sdh';
+export const DATA_MOUNT_POINT = '/data';
+
+// Kept on the data volume, so a replacement host serves TLS without reissuing the certificate
+const CERTIFICATES_DIR = `${DATA_MOUNT_POINT}/letsencrypt`;
+
+export interface PrivateRecord {
+  hostedZoneId: string;
+  recordName: string;
+}
+
+export interface HostAttachment {
+  // Elastic IP moved onto the host at boot
+  eipAllocationId?: string;
+  // Private A record pointed at the host at boot, for hosts other services reach inside the VPC
+  privateRecord?: PrivateRecord;
+  // Tag of the standalone data volume attached at boot; the volume must be in the host's AZ
+  dataVolumeTag: { key: string; value: string };
+  region: string;
+}
+
+function upsertRecordCommand(record: PrivateRecord): string {
+  const change = { Changes: [{ Action: 'UPSERT', ResourceRecordSet: { Name: record.recordName, Type: 'A', TTL: 30, ResourceRecords: [{ Value: '__IP__' }] } }] };
+  return `aws route53 change-resource-record-sets --hosted-zone-id ${record.hostedZoneId} --change-batch '${JSON.stringify(change).replace('__IP__', `'"$PRIVATE_IP"'`)}'`;
+}
+
+/**
+ * Boot commands for a host that does not own its address and data volume:
+ * moves the Elastic IP or private record onto it and attaches the tagged data
+ * volume, waiting for a terminated predecessor to let go of it first.
+ */
+function attachCommands(attachment: HostAttachment): string[] {
+  const { key, value } = attachment.dataVolumeTag;
+  const metadata = (path: string) => `curl -sf -H "X-aws-ec2-metadata-token: $IMDS_TOKEN" http://169.254.169.254/latest/meta-data/${path}`;
+  return [
+    // ---------- Elastic IP and Data Volume ----------
+    `export AWS_DEFAULT_REGION=${attachment.region}`,
+    'IMDS_TOKEN=$(curl -sf -X PUT http://169.254.169.254/latest/api/token -H "X-aws-ec2-metadata-token-ttl-seconds: 300")',
+    `INSTANCE_ID=$(${metadata('instance-id')})`,
+    `AVAILABILITY_ZONE=$(${metadata('placement/availability-zone')})`,
+    ...(attachment.eipAllocationId
+      ? [`aws ec2 associate-address --allocation-id ${attachment.eipAllocationId} --instance-id "$INSTANCE_ID" --allow-reassociation`]
+      : []),
+    ...(attachment.privateRecord
+      ? [`PRIVATE_IP=$(${metadata('local-ipv4')})`, upsertRecordCommand(attachment.privateRecord)]
+      : []),
+    `VOLUME_ID=$(aws ec2 describe-volumes --filters "Name=tag:${key},Values=${value}" "Name=availability-zone,Values=$AVAILABILITY_ZONE" --query "Volumes[].VolumeId" --output text)`,
+    `if [ -z "$VOLUME_ID" ]; then echo "No volume tagged ${key}=${value} in $AVAILABILITY_ZONE"; exit 1; fi`,
+    // A stack update can put the tag back on a volume a restore replaced; never guess which one holds the data
+    `if [ "$(echo $VOLUME_ID | wc -w)" -gt 1 ]; then echo "More than one volume tagged ${key}=${value} in $AVAILABILITY_ZONE: $VOLUME_ID"; exit 1; fi`,
+    'for i in $(seq 1 60); do',
+    '  ATTACHED_TO=$(aws ec2 describe-volumes --volume-ids "$VOLUME_ID" --query "Volumes[0].Attachments[0].InstanceId" --output text)',
+    '  [ "$ATTACHED_TO" = "None" ] || [ "$ATTACHED_TO" = "$INSTANCE_ID" ] && break',
+    '  echo "Waiting for $ATTACHED_TO to release $VOLUME_ID"',
+    '  sleep 10',
+    'done',
+    `[ "$ATTACHED_TO" = "$INSTANCE_ID" ] || aws ec2 attach-volume --volume-id "$VOLUME_ID" --instance-id "$INSTANCE_ID" --device ${DATA_DEVICE}`,
+  ];
+}
+
+// Formats the data volume only when blank and mounts it on /data, on first boot and every boot after
+function dataVolumeCommands(): string[] {
+  return [
+    // ---------- Disk Setup ----------
+    `for i in $(seq 1 60); do [ -e ${DATA_DEVICE} ] && break; sleep 2; done`,
+    `[ -e ${DATA_DEVICE} ]`,
+    // Only format a blank volume; a reattached or restored one already carries the data
+    `DATA_UUID=$(sudo blkid -o value -s UUID ${DATA_DEVICE} || true)`,
+    `if [ -z "$DATA_UUID" ]; then sudo mkfs -t xfs ${DATA_DEVICE}; DATA_UUID=$(sudo blkid -o value -s UUID ${DATA_DEVICE}); fi`,
+    `sudo mkdir -p ${DATA_MOUNT_POINT}`,
+    `grep -q ' ${DATA_MOUNT_POINT} ' /etc/fstab || echo "UUID=$DATA_UUID ${DATA_MOUNT_POINT} xfs defaults,nofail 0 2" | sudo tee -a /etc/fstab`,
+    `mountpoint -q ${DATA_MOUNT_POINT} || sudo mount ${DATA_MOUNT_POINT}`,
+    // Never let Docker or certbot fill the root volume instead
+    `mountpoint -q ${DATA_MOUNT_POINT}`,
+  ];
+}
+
+function dockerCommands(): string[] {
+  return [
+    // ---------- System Update ----------
+    "sudo yum update -y",
+
+    // ---------- Docker Setup ----------
+    "sudo amazon-linux-extras enable docker",
+    "sudo yum install -y docker python3-pip jq",
+    // Data root on the data volume before the first start, so nothing is left to move
+    `sudo mkdir -p /etc/docker ${DATA_MOUNT_POINT}/docker`,
+    `echo '{ "data-root": "${DATA_MOUNT_POINT}/docker" }' | sudo tee /etc/docker/daemon.json`,
+    "sudo systemctl enable --now docker",
+    "sudo pip3 install docker-compose",
+    "sudo usermod -aG docker ec2-user",
+  ];
+}
+
+/**
+ * Setup for a docker-compose host serving `domainName`: mounts the data
+ * volume, installs Docker, docker-compose, nginx with the HTTP-only bootstrap
+ * site and certbot. Certificates and releases come later through SSM.
+ * Docker, certificates and the last good release live on the data volume, so
+ * every step is safe to run again on a host that gets an existing volume.
+ * With `attachment` the host first claims its Elastic IP and data volume.
+ */
+export function hostSetupCommands(domainName: string, attachment?: HostAttachment): string[] {
+  return [
+    "set -xe",
+    ...(attachment ? attachCommands(attachment) : []),
+    ...dataVolumeCommands(),
+    ...dockerCommands(),
+
+    // ---------- NGINX Setup ----------
+    "sudo amazon-linux-extras enable nginx1",
+    "sudo amazon-linux-extras install -y nginx1",
+    "sudo yum install -y openssl",
+    "sudo mkdir -p /etc/nginx/conf.d",
+
+    // ---------- Prepare webroot for Certbot ----------
+    "sudo mkdir -p /var/www/certbot/.well-known/acme-challenge",
+    "sudo chown -R ec2-user:ec2-user /var/www/certbot",
+    "sudo chmod -R 755 /var/www/certbot",
+
+    // Write minimal HTTP-only config for Certbot first
+    `sudo tee /etc/nginx/conf.d/frontend.conf << 'EOF'
+${renderBootstrapConfig(buildSite(domainName))}EOF`,
+
+    "sudo systemctl enable nginx",
+
+    // ---------- Certbot Setup ----------
+    `sudo mkdir -p ${CERTIFICATES_DIR}`,
+    `if [ ! -L /etc/letsencrypt ]; then sudo mkdir -p /etc/letsencrypt && sudo cp -a /etc/letsencrypt/. ${CERTIFICATES_DIR}/ && sudo rm -rf /etc/letsencrypt && sudo ln -s ${CERTIFICATES_DIR} /etc/letsencrypt; fi`,
+    "sudo amazon-linux-extras enable epel",
+    "sudo yum install -y epel-release",
+    "sudo yum install -y certbot",
+  ];
+}
+
+/**
+ * Setup for the Cassandra host of an ECS stage: claims its private record and
+ * data volume, installs Docker with its data root on the volume and runs
+ * Cassandra from `image` on the host network, keeping its data under /data.
+ * A replacement host starts Cassandra on the existing data.
+ */
+export function cassandraHostCommands(image: string, attachment: HostAttachment): string[] {
+  return [
+    "set -xe",
+    ...attachCommands(attachment),
+    ...dataVolumeCommands(),
+    ...dockerCommands(),
+
+    // ---------- Cassandra ----------
+    `sudo mkdir -p ${DATA_MOUNT_POINT}/cassandra`,
+    `sudo docker inspect cassandra > /dev/null 2>&1 || sudo docker run -d --name cassandra --restart unless-stopped --network host -v ${DATA_MOUNT_POINT}/cassandra:/var/lib/cassandra ${image}`,
+  ];
+}
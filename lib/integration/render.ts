@@ -0,0 +1,59 @@
+// Where Gradle writes JUnit XML for the test task, relative to the HealthIntegrationTests checkout
+export const JUNIT_RESULTS_DIR = 'build/test-results/test';
+
+/**
+ * Bash script run in CodeBuild from the HealthIntegrationTests source
+ * artifact. Runs the given suites against $HEALTH_BASE_URL, prints one line
+ * per suite plus every failed test case from the JUnit XML, and exits
+ * non-zero if Gradle failed or produced no results.
+ */
+export function renderIntegrationTestScript(suites: string[]): string {
+  if (suites.length === 0) {
+    throw new Error('At least one integration test suite is required');
+  }
+
+  return [
+    '#!/bin/bash',
+    '# Integration test run, generated from the HealthCDK environment config',
+    'set -u',
+    `RESULTS_DIR=${JUNIT_RESULTS_DIR}`,
+    ': "${HEALTH_BASE_URL:?HEALTH_BASE_URL must be set}"',
+    '',
+    'echo "Running integration tests against $HEALTH_BASE_URL"',
+    'chmod +x gradlew',
+    `./gradlew test --no-daemon --continue ${suites.map((suite) => `--tests ${suite}`).join(' ')}`,
+    'STATUS=$?',
+    '',
+    'shopt -s nullglob',
+    'RESULTS=("$RESULTS_DIR"/*.xml)',
+    'echo "==== INTEGRATION TEST REPORT ===="',
+    'if [ ${#RESULTS[@]} -eq 0 ]; then',
+    '  echo "❌ No JUnit results in $RESULTS_DIR (Gradle exited with $STATUS)"',
+    '  exit 1',
+    'fi',
+    '',
+    '# One line per suite, then each failed or errored case with its message',
+    'awk \'',
+    '  function attr(line, key) {',
+    '    if (!match(line, " " key "=\\"[^\\"]*\\"")) return ""',
+    '    return unescape(substr(line, RSTART + length(key) + 3, RLENGTH - length(key) - 4))',
+    '  }',
+    '  function unescape(value) {',
+    '    gsub(/&lt;/, "<", value); gsub(/&gt;/, ">", value); gsub(/&quot;/, "\\"", value); gsub(/&apos;|&#39;/, "\\047", value)',
+    '    gsub(/&#10;/, " ", value); gsub(/&amp;/, "\\\\&", value)',
+    '    return value',
+    '  }',
+    '  /<testsuite / {',
+    '    printf "%-60s tests %3d  failures %3d  errors %3d  skipped %3d\\n", attr($0, "name"), attr($0, "tests"), attr($0, "failures"), attr($0, "errors"), attr($0, "skipped")',
+    '  }',
+    '  /<testcase / { testcase = attr($0, "classname") "." attr($0, "name") }',
+    '  /<(failure|error) / { printf "  FAIL %s\\n       %s\\n", testcase, attr($0, "message") }',
+    '\' "${RESULTS[@]}"',
+    '',
+    'if [ "$STATUS" -ne 0 ]; then',
+    '  echo "❌ Integration tests failed against $HEALTH_BASE_URL"',
+    '  exit "$STATUS"',
+    'fi',
+    'echo "✅ Integration tests passed against $HEALTH_BASE_URL"',
+  ].join('\n') + '\n';
+}
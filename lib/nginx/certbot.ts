@@ -0,0 +1,51 @@
+import { CERTBOT_WEBROOT } from './routes';
+
+export const CERTIFICATE_BOOTSTRAP_PATH = '/home/ec2-user/bin/certificate-bootstrap.sh';
+const RENEW_CRON_FILE = '/etc/cron.d/certbot-renew';
+
+/**
+ * Bash script run once per host by an SSM association. Issues the Let's
+ * Encrypt certificate through the webroot served by the bootstrap nginx
+ * config unless one already exists, then installs a single renewal schedule.
+ * Safe to re-run: an existing certificate and renewal entry are left alone,
+ * and renew lines that older deploys appended to root's crontab are dropped.
+ */
+export function renderCertificateBootstrapScript(domainName: string): string {
+  return [
+    '#!/bin/bash',
+    'set -euo pipefail',
+    `DOMAIN=${domainName}`,
+    `WEBROOT=${CERTBOT_WEBROOT}`,
+    '',
+    '# userData installs nginx and certbot; the association can start before it is done',
+    'for i in $(seq 1 60); do',
+    '  command -v certbot >/dev/null && command -v nginx >/dev/null && break',
+    '  sleep 10',
+    'done',
+    'command -v certbot >/dev/null || { echo "certbot is not installed"; exit 1; }',
+    '',
+    'if [ -f "/etc/letsencrypt/live/$DOMAIN/fullchain.pem" ]; then',
+    '  echo "Certificate for $DOMAIN already issued"',
+    'else',
+    '  # Failed validations count against the Let\'s Encrypt rate limit, so wait for DNS to reach this host first',
+    '  TOKEN=$(curl -s -X PUT http://169.254.169.254/latest/api/token -H "X-aws-ec2-metadata-token-ttl-seconds: 300")',
+    '  PUBLIC_IP=$(curl -s -H "X-aws-ec2-metadata-token: $TOKEN" http://169.254.169.254/latest/meta-data/public-ipv4)',
+    '  for i in $(seq 1 60); do',
+    '    [ "$(getent hosts "$DOMAIN" | awk \'{print $1}\')" = "$PUBLIC_IP" ] && break',
+    '    echo "Waiting for $DOMAIN to resolve to $PUBLIC_IP"',
+    '    sleep 30',
+    '  done',
+    '  mkdir -p "$WEBROOT/.well-known/acme-challenge"',
+    '  nginx -t',
+    '  systemctl reload-or-restart nginx',
+    '  certbot certonly --webroot -w "$WEBROOT" -d "$DOMAIN" --agree-tos --register-unsafely-without-email --non-interactive',
+    'fi',
+    '',
+    '( crontab -l 2>/dev/null | grep -v "certbot renew" || true ) | crontab -',
+    `cat > ${RENEW_CRON_FILE} <<'EOF'`,
+    "0 0,12 * * * root /usr/bin/certbot renew --quiet --deploy-hook 'systemctl reload nginx'",
+    'EOF',
+    `chmod 644 ${RENEW_CRON_FILE}`,
+    'echo "Certificate bootstrap complete for $DOMAIN"',
+  ].join('\n') + '\n';
+}
@@ -0,0 +1,117 @@
+import { CERTBOT_WEBROOT, NginxSite, UpstreamRoute } from './routes';
+
+function indent(lines: string[], depth: number): string[] {
+  const pad = '    '.repeat(depth);
+  return lines.map((line) => (line ? `${pad}${line}` : line));
+}
+
+function acmeChallengeAndRedirect(serverName: string): string[] {
+  return [
+    'server {',
+    ...indent([
+      'listen 80;',
+      `server_name ${serverName};`,
+      '',
+      '# Let Certbot handle HTTP validation',
+      'location /.well-known/acme-challenge/ {',
+      `    root ${CERTBOT_WEBROOT};`,
+      '}',
+      '',
+      '# Redirect all other HTTP traffic to HTTPS',
+      'location / {',
+      '    return 301 https://$host$request_uri;',
+      '}',
+    ], 1),
+    '}',
+  ];
+}
+
+function renderLocation(route: UpstreamRoute): string[] {
+  const body: string[] = [];
+  if (route.rateLimitZone) {
+    body.push(`limit_req zone=${route.rateLimitZone}${route.burst !== undefined ? ` burst=${route.burst}` : ''} nodelay;`);
+  }
+  if (route.clientMaxBodySize) {
+    body.push(`client_max_body_size ${route.clientMaxBodySize};`);
+  }
+  body.push(
+    `proxy_pass http://127.0.0.1:${route.upstreamPort};`,
+    'proxy_http_version 1.1;',
+    'proxy_set_header Host $host;',
+    'proxy_set_header X-Real-IP $remote_addr;',
+    'proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;',
+    'proxy_set_header X-Forwarded-Proto $scheme;',
+  );
+
+  return [
+    `# ${route.description}`,
+    `location ${route.pathPrefix} {`,
+    ...indent(body, 1),
+    '}',
+  ];
+}
+
+function validate(site: NginxSite) {
+  const zones = new Set(site.rateLimitZones.map((zone) => zone.name));
+  const prefixes = new Set<string>();
+  site.routes.forEach((route) => {
+    if (route.rateLimitZone && !zones.has(route.rateLimitZone)) {
+      throw new Error(`Route '${route.pathPrefix}' references unknown rate limit zone '${route.rateLimitZone}'`);
+    }
+    if (route.burst !== undefined && !route.rateLimitZone) {
+      throw new Error(`Route '${route.pathPrefix}' sets burst without a rate limit zone`);
+    }
+    if (prefixes.has(route.pathPrefix)) {
+      throw new Error(`Duplicate route for path prefix '${route.pathPrefix}'`);
+    }
+    prefixes.add(route.pathPrefix);
+  });
+}
+
+/**
+ * HTTP-only site written by userData at first boot, so nginx can answer
+ * the certbot webroot challenge before any certificate exists.
+ */
+export function renderBootstrapConfig(site: NginxSite): string {
+  return acmeChallengeAndRedirect(site.serverName).join('\n') + '\n';
+}
+
+/** Full site with the TLS server block and one location per upstream route. */
+export function renderSiteConfig(site: NginxSite): string {
+  validate(site);
+
+  const tlsServer = [
+    'server {',
+    ...indent([
+      'listen 443 ssl;',
+      `server_name ${site.serverName};`,
+      '',
+      `client_max_body_size ${site.clientMaxBodySize};`,
+      '',
+      `ssl_certificate /etc/letsencrypt/live/${site.serverName}/fullchain.pem;`,
+      `ssl_certificate_key /etc/letsencrypt/live/${site.serverName}/privkey.pem;`,
+      ...site.routes.flatMap((route) => ['', ...renderLocation(route)]),
+    ], 1),
+    '}',
+  ];
+
+  return [...acmeChallengeAndRedirect(site.serverName), '', ...tlsServer].join('\n') + '\n';
+}
+
+/** http-context rate limit zones shared by every site on the host. */
+export function renderRateLimitsConfig(site: NginxSite): string {
+  return [
+    '# ---------------------------',
+    '# Global Rate Limit Zones',
+    '# ---------------------------',
+    '',
+    ...site.rateLimitZones.map((zone) =>
+      `limit_req_zone $binary_remote_addr zone=${zone.name}:${zone.size} rate=${zone.rate};`),
+    '',
+    '# Log blocked requests as warnings',
+    'limit_req_log_level warn;',
+    '',
+    '# Return 429 when request exceeds limit',
+    'limit_req_status 429;',
+  ].join('\n') + '\n';
+}
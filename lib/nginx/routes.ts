@@ -0,0 +1,44 @@
+export interface RateLimitZone {
+  name: string;
+  // nginx rate, e.g. '5r/s'
+  rate: string;
+  // Shared memory size for the zone, e.g. '10m'
+  size: string;
+}
+
+export interface UpstreamRoute {
+  description: string;
+  pathPrefix: string;
+  upstreamPort: number;
+  rateLimitZone?: string;
+  burst?: number;
+  clientMaxBodySize?: string;
+}
+
+export interface NginxSite {
+  serverName: string;
+  clientMaxBodySize: string;
+  rateLimitZones: RateLimitZone[];
+  routes: UpstreamRoute[];
+}
+
+export const CERTBOT_WEBROOT = '/var/www/certbot';
+
+export const RATE_LIMIT_ZONES: RateLimitZone[] = [
+  // Backend API: strict limit (5 req/sec per IP)
+  { name: 'api_limit', rate: '5r/s', size: '10m' },
+];
+
+export const UPSTREAM_ROUTES: UpstreamRoute[] = [
+  { description: 'FE Route', pathPrefix: '/', upstreamPort: 5173 },
+  { description: 'BE Route', pathPrefix: '/v1/', upstreamPort: 8080, rateLimitZone: 'api_limit', burst: 5 },
+];
+
+export function buildSite(serverName: string): NginxSite {
+  return {
+    serverName,
+    clientMaxBodySize: '20M',
+    rateLimitZones: RATE_LIMIT_ZONES,
+    routes: UPSTREAM_ROUTES,
+  };
+}
@@ -0,0 +1,86 @@
+import { SERVICES } from '../config/services';
+import { APP_SECRETS, appSecretName } from '../config/secrets';
+import { StageName } from '../config/environments';
+import { NginxSite } from '../nginx/routes';
+import { renderRateLimitsConfig, renderSiteConfig } from '../nginx/render';
+import { renderHealthGateScript } from '../healthgate/render';
+import { HEALTH_GATE_PATH, LAST_GOOD_RELEASE_FILE, RELEASE_SCRIPT_PATH, ReleaseSecret, renderReleaseScript } from '../release/render';
+import { installFileCommand, installScriptCommand } from './scripts';
+
+const NGINX_CONF_DIR = '/etc/nginx/conf.d';
+
+export interface DeployTarget {
+  domainName: string;
+  retainedReleases: number;
+  // Bucket prefix healthy releases are kept under past the release expiry; previews, which do not outlive it, leave it unset
+  keptReleasePrefix?: string;
+  secrets: ReleaseSecret[];
+  // Put frontend.conf and ratelimits.conf in place; nginx is checked and reloaded afterwards
+  nginxCommands: string[];
+  // Release id, deploy bucket and ECR registry handed to release.sh, as shell variables or SSM parameters
+  releaseArgs: string;
+}
+
+/** Copies the nginx configs the Package stage rendered for a stage out of the deploy bucket. */
+export function bucketNginxCommands(stage: StageName): string[] {
+  return ['ratelimits.conf', 'frontend.conf'].map((file) =>
+    `bash -c 'set -e; aws s3 cp s3://$DEPLOY_BUCKET_NAME/nginx/${stage}/${file} ${NGINX_CONF_DIR}/${file}'`);
+}
+
+/** Writes nginx configs rendered at synth time, for hosts without a stage of their own. */
+export function inlineNginxCommands(site: NginxSite): string[] {
+  return [
+    installFileCommand(`${NGINX_CONF_DIR}/ratelimits.conf`, renderRateLimitsConfig(site)),
+    installFileCommand(`${NGINX_CONF_DIR}/frontend.conf`, renderSiteConfig(site)),
+  ];
+}
+
+/** Application secrets of a stage as the release script reads them on its hosts. */
+export function stageReleaseSecrets(stage: StageName, region: string): ReleaseSecret[] {
+  return APP_SECRETS.map((secret) => ({
+    envVar: secret.envVar,
+    secretId: appSecretName(stage, secret),
+    region,
+  }));
+}
+
+/**
+ * Commands run on a host through SSM for every deploy: install the nginx
+ * configs, the health gate and the release script, then start the release.
+ * Certificates are issued and renewed by the host's certificate bootstrap
+ * association, not by deploys.
+ */
+export function deployCommands(target: DeployTarget): string[] {
+  return [
+    ...target.nginxCommands,
+    "bash -c 'set -e; sudo nginx -t'",
+    "sudo systemctl reload-or-restart nginx",
+
+    "sudo curl -SL https://github.com/docker/compose/releases/download/v2.20.2/docker-compose-linux-x86_64 -o /usr/local/bin/docker-compose",
+    "sudo chmod +x /usr/local/bin/docker-compose",
+    "docker-compose --version",
+    installScriptCommand(HEALTH_GATE_PATH, renderHealthGateScript(SERVICES, target.domainName)),
+    installScriptCommand(RELEASE_SCRIPT_PATH, renderReleaseScript(target.retainedReleases, target.secrets, target.keptReleasePrefix)),
+    // Rolls back to the last good release itself when the health gate fails
+    `bash ${RELEASE_SCRIPT_PATH} ${target.releaseArgs} || exit 1`,
+  ];
+}
+
+/**
+ * Commands run at the end of userData. A host that replaced a failed one
+ * restarts the last good release recorded on its data volume, once the
+ * certificate the nginx site needs is there too; a host on a fresh volume
+ * waits for the next pipeline deploy.
+ */
+export function restoreLastGoodCommands(target: Omit<DeployTarget, 'releaseArgs'>, deployBucketName: string, ecrRegistry: string): string[] {
+  return [
+    `LAST_GOOD=$(cat ${LAST_GOOD_RELEASE_FILE} 2>/dev/null || true)`,
+    `if [ -n "$LAST_GOOD" ] && [ -f /etc/letsencrypt/live/${target.domainName}/fullchain.pem ]; then`,
+    `  export DEPLOY_BUCKET_NAME=${deployBucketName}`,
+    '  echo "Restoring release $LAST_GOOD"',
+    ...deployCommands({ ...target, releaseArgs: `"$LAST_GOOD" $DEPLOY_BUCKET_NAME ${ecrRegistry}` }).map((command) => `  ${command}`),
+    'else',
+    '  echo "No last good release and certificate on the data volume; the next deploy starts one"',
+    'fi',
+  ];
+}
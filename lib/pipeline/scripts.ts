@@ -0,0 +1,15 @@
+import * as path from 'path';
+
+/**
+ * SSM command that writes a generated file onto the instance. The content
+ * is shipped base64 encoded so it survives the SSM parameters JSON untouched.
+ */
+export function installFileCommand(filePath: string, content: string): string {
+  const encoded = Buffer.from(content).toString('base64');
+  return `mkdir -p ${path.posix.dirname(filePath)} && echo ${encoded} | base64 -d > ${filePath}`;
+}
+
+/** SSM command that writes a generated script onto the instance and makes it executable. */
+export function installScriptCommand(scriptPath: string, script: string): string {
+  return `${installFileCommand(scriptPath, script)} && chmod +x ${scriptPath}`;
+}
@@ -0,0 +1,155 @@
+import { ServiceBuild, ServiceDefinition, getService, imageServices, packagedServices, sourceServices } from '../config/services';
+import { COMPOSE_RELEASE_FILE, LATEST_RELEASE_KEY, SECRETS_ENV_FILE, releaseArtifactKey, releaseImageKey, releasePartKey } from '../release/render';
+
+// Scratch directory a build action lays its checkout and dependencies out in
+const BUILD_ROOT = '/tmp/ws';
+
+function checkoutDir(service: ServiceDefinition): string {
+  return service.workspaceRoot ? '.' : service.repo!;
+}
+
+// CodeBuild exposes every secondary input under CODEBUILD_SRC_DIR_<artifact name>
+function sourceDirVariable(service: ServiceDefinition): string {
+  return `"$CODEBUILD_SRC_DIR_${service.name}"`;
+}
+
+function buildCommand(build: ServiceBuild): string {
+  switch (build.tool) {
+    case 'gradle':
+      return `chmod +x gradlew && ${build.command}`;
+    case 'npm':
+      return build.command;
+  }
+}
+
+function imageCommands(service: ServiceDefinition, options: ServiceBuildOptions, pipelineBuild: boolean): string[] {
+  const { composeService, context = '.' } = service.image!;
+  const repositoryUri = options.repositoryUri!;
+  const cacheImage = `${options.cacheRepositoryUri ?? repositoryUri}:latest`;
+  return [
+    `echo "==== IMAGE ${service.name} ===="`,
+    'aws ecr get-login-password | docker login --username AWS --password-stdin $ECR_REGISTRY',
+    // Previous image seeds the layer cache on a fresh build host
+    `docker pull ${cacheImage} || true`,
+    `DOCKER_BUILDKIT=1 docker build --build-arg BUILDKIT_INLINE_CACHE=1 --cache-from ${cacheImage} -t ${repositoryUri}:$RELEASE_ID${pipelineBuild ? ` -t ${repositoryUri}:latest` : ''} ${context}`,
+    `docker push ${repositoryUri}:$RELEASE_ID`,
+    ...(pipelineBuild ? [`docker push ${repositoryUri}:latest`] : []),
+    `docker inspect --format '{{index .RepoDigests 0}}' ${repositoryUri}:$RELEASE_ID > /tmp/image.digest`,
+    `aws s3 cp /tmp/image.digest s3://$DEPLOY_BUCKET_NAME/${releaseImageKey('$RELEASE_ID', composeService)}`,
+  ];
+}
+
+export interface ServiceBuildOptions {
+  // Repository the image is pushed to; required for services with an image
+  repositoryUri?: string;
+  // Repository whose `latest` image seeds the layer cache; defaults to repositoryUri
+  cacheRepositoryUri?: string;
+  // Pipeline builds move `latest` and take libraries from their parts; defaults to true
+  pipelineBuild?: boolean;
+}
+
+// Libraries a build uses, in dependsOn order; each must be built before the service itself
+function builtDependencies(service: ServiceDefinition, services: ServiceDefinition[]): ServiceDefinition[] {
+  return (service.dependsOn ?? []).map((name) => getService(name, services));
+}
+
+/**
+ * Package stage run order of a service's build action: after every packaged
+ * dependency, so the built library is there to take from its part.
+ */
+export function packageRunOrder(service: ServiceDefinition, services: ServiceDefinition[]): number {
+  const packaged = packagedServices(services);
+  return builtDependencies(service, services)
+    .filter((dependency) => packaged.includes(dependency))
+    .reduce((runOrder, dependency) => Math.max(runOrder, packageRunOrder(dependency, services) + 1), 1);
+}
+
+/** Run order of the assemble action, after every build. */
+export function assembleRunOrder(services: ServiceDefinition[]): number {
+  return Math.max(...packagedServices(services).map((service) => packageRunOrder(service, services))) + 1;
+}
+
+/** Dependencies the pipeline build action takes as source artifacts, rather than as parts built before it. */
+export function sourceDependencies(service: ServiceDefinition, services: ServiceDefinition[]): ServiceDefinition[] {
+  const packaged = packagedServices(services);
+  return builtDependencies(service, services).filter((dependency) => !packaged.includes(dependency));
+}
+
+function dependencyCommands(service: ServiceDefinition, services: ServiceDefinition[], pipelineBuild: boolean): string[] {
+  const packaged = packagedServices(services);
+  return builtDependencies(service, services).flatMap((dependency) => {
+    const dir = checkoutDir(dependency);
+    if (pipelineBuild && packaged.includes(dependency)) {
+      return [`aws s3 cp s3://$DEPLOY_BUCKET_NAME/${releasePartKey('$RELEASE_ID', dependency.name)} - | tar -xz -C ${BUILD_ROOT}`];
+    }
+    return [
+      `cp -r ${sourceDirVariable(dependency)} ${BUILD_ROOT}/${dir}`,
+      ...(dependency.build
+        ? [`echo "==== BUILDING ${dependency.name} ===="`, `(cd ${BUILD_ROOT}/${dir} && ${buildCommand(dependency.build)})`]
+        : []),
+    ];
+  });
+}
+
+/**
+ * Commands for one service's action in the Package stage. The service's
+ * source artifact is the primary input. Its `dependsOn` libraries are laid
+ * out side by side with it, already built, since its Gradle build reads their
+ * build output: pipeline builds take each library's part, built in an earlier
+ * run order, while other builds, such as pull request previews, build the
+ * libraries from source first and leave `latest` alone. The built checkout is
+ * uploaded for the assemble action, and images are pushed with the digest
+ * recorded next to it. Expects DEPLOY_BUCKET_NAME, ECR_REGISTRY and
+ * RELEASE_ID in the environment.
+ */
+export function serviceBuildCommands(service: ServiceDefinition, services: ServiceDefinition[], options: ServiceBuildOptions = {}): string[] {
+  const { pipelineBuild = true } = options;
+  const dir = checkoutDir(service);
+
+  return [
+    'set -e',
+    `rm -rf ${BUILD_ROOT} && mkdir -p ${BUILD_ROOT}`,
+    `cp -r "$CODEBUILD_SRC_DIR" ${BUILD_ROOT}/${dir}`,
+    ...dependencyCommands(service, services, pipelineBuild),
+    `cd ${BUILD_ROOT}/${dir}`,
+    ...(service.build ? [`echo "==== BUILDING ${service.name} ===="`, buildCommand(service.build)] : []),
+    ...(service.image ? imageCommands(service, options, pipelineBuild) : []),
+    `tar -czf /tmp/${service.name}.tar.gz -C ${BUILD_ROOT} ${dir}`,
+    `aws s3 cp /tmp/${service.name}.tar.gz s3://$DEPLOY_BUCKET_NAME/${releasePartKey('$RELEASE_ID', service.name)}`,
+  ];
+}
+
+/** Sources the assemble action takes straight from the Source stage: everything nobody builds. */
+export function unbuiltSources(services: ServiceDefinition[]): ServiceDefinition[] {
+  const packaged = packagedServices(services);
+  return sourceServices(services).filter((service) => !service.workspaceRoot && !packaged.includes(service));
+}
+
+/**
+ * Commands for the final Package action: lays the workspace repo, every
+ * built part and every unbuilt source out as before, writes the compose
+ * override pinning each image by digest and handing it the secrets env file,
+ * uploads the release tarball and records it as the latest release.
+ */
+export function assembleCommands(services: ServiceDefinition[]): string[] {
+  return [
+    'set -e',
+    'rm -rf /tmp/build-artifacts && mkdir -p /tmp/build-artifacts/workspace',
+    'cp -r "$CODEBUILD_SRC_DIR"/. /tmp/build-artifacts/workspace/',
+    'cd /tmp/build-artifacts/workspace',
+    ...packagedServices(services).map((service) =>
+      `aws s3 cp s3://$DEPLOY_BUCKET_NAME/${releasePartKey('$RELEASE_ID', service.name)} - | tar -xz`),
+    ...unbuiltSources(services).map((service) => `cp -r ${sourceDirVariable(service)} ${checkoutDir(service)}`),
+    `echo "services:" > ${COMPOSE_RELEASE_FILE}`,
+    ...imageServices(services).map((service) => {
+      const { composeService } = service.image!;
+      return `printf '  %s:\\n    image: %s\\n    env_file: ${SECRETS_ENV_FILE}\\n' ${composeService} "$(aws s3 cp s3://$DEPLOY_BUCKET_NAME/${releaseImageKey('$RELEASE_ID', composeService)} -)" >> ${COMPOSE_RELEASE_FILE}`;
+    }),
+    'echo "==== PACKAGING WORKSPACE ===="',
+    'cd /tmp/build-artifacts',
+    'tar -czf docker_workspace.tar.gz workspace',
+    `aws s3 cp docker_workspace.tar.gz s3://$DEPLOY_BUCKET_NAME/${releaseArtifactKey('$RELEASE_ID')}`,
+    `echo "$RELEASE_ID" | aws s3 cp - s3://$DEPLOY_BUCKET_NAME/${LATEST_RELEASE_KEY}`,
+    'echo "Packaging complete!"',
+  ];
+}
@@ -0,0 +1,224 @@
+import { GITHUB_OWNER, ServiceDefinition } from '../config/services';
+import { ENV_TAG } from '../config/tags';
+import {
+  PREVIEW_EXPIRES_TAG,
+  PREVIEW_IMAGE_TAG_PREFIX,
+  PREVIEW_STACK_PREFIX,
+  PreviewConfig,
+  previewDeployDocumentName,
+  previewDomain,
+  previewEnvName,
+  previewSlug,
+  previewStackName,
+} from '../config/previews';
+import { serviceBuildCommands } from '../pipeline/serviceCommands';
+import { COMPOSE_RELEASE_FILE, LATEST_RELEASE_KEY, releaseArtifactKey, releasePartKey } from '../release/render';
+
+// Written next to the preview deploy script by the deploy project's buildspec
+export const SSM_WAIT_SCRIPT_PATH = '/tmp/wait-ssm-command.sh';
+export const INTEGRATION_TEST_SCRIPT_PATH = '/tmp/run-integration-tests.sh';
+
+// Upper bound for a preview deploy on the host, certificate wait and health gate included
+export const PREVIEW_DEPLOY_TIMEOUT_SECONDS = 3600;
+
+// Commit status context the preview URL is posted under
+export const PREVIEW_STATUS_CONTEXT = 'health/preview';
+
+// Shell placeholders resolved once the pull request number is known
+const ID = '$PREVIEW_ID';
+
+/**
+ * Commands run on a fresh preview host before its first deploy: wait for
+ * userData to finish and for the certificate bootstrap association to issue
+ * the certificate the full nginx site needs.
+ */
+export function previewHostReadyCommands(domainName: string, timeoutSeconds: number = 1800): string[] {
+  const attempts = Math.ceil(timeoutSeconds / 15);
+  return [
+    'cloud-init status --wait > /dev/null || true',
+    `bash -c 'for i in $(seq 1 ${attempts}); do [ -f /etc/letsencrypt/live/${domainName}/fullchain.pem ] && exit 0; sleep 15; done; echo "No certificate for ${domainName} after ${timeoutSeconds}s"; exit 1'`,
+  ];
+}
+
+export interface PreviewScriptOptions {
+  service: ServiceDefinition;
+  services: ServiceDefinition[];
+  config: PreviewConfig;
+}
+
+// Names of a preview from PR_NUMBER and COMMIT, shared by the image build and the deploy
+function previewNameLines(service: ServiceDefinition, config: PreviewConfig): string[] {
+  return [
+    `PREVIEW_ID="${previewSlug(service)}-pr$PR_NUMBER"`,
+    `STACK="${previewStackName(ID)}"`,
+    `PREVIEW_ENV="${previewEnvName(ID)}"`,
+    `PREVIEW_URL="https://${previewDomain(ID, config)}"`,
+    `export RELEASE_ID="${PREVIEW_IMAGE_TAG_PREFIX}$PREVIEW_ID-\${COMMIT:0:7}"`,
+  ];
+}
+
+/**
+ * Bash script run by a service's pull request webhook build. It runs the pull
+ * request's own code, so it only builds: the image goes to the service's
+ * preview repository and the built checkout under the preview release.
+ * Closing the pull request builds nothing; the deploy build that follows
+ * deletes the preview. Expects DEPLOY_BUCKET_NAME, ECR_REGISTRY,
+ * IMAGE_REPOSITORY_URI and CACHE_REPOSITORY_URI.
+ */
+export function renderPreviewBuildScript(options: PreviewScriptOptions): string {
+  const { service, services, config } = options;
+
+  return [
+    '#!/bin/bash',
+    `# Pull request preview image build for ${service.name}, generated from the HealthCDK service registry`,
+    'set -euo pipefail',
+    'PR_NUMBER="${CODEBUILD_WEBHOOK_TRIGGER#pr/}"',
+    'COMMIT="$CODEBUILD_RESOLVED_SOURCE_VERSION"',
+    ...previewNameLines(service, config),
+    '',
+    'case "$CODEBUILD_WEBHOOK_EVENT" in',
+    '  PULL_REQUEST_CLOSED|PULL_REQUEST_MERGED)',
+    '    echo "Pull request #$PR_NUMBER closed, nothing to build"',
+    '    exit 0',
+    '    ;;',
+    'esac',
+    '',
+    'echo "==== BUILDING $RELEASE_ID ===="',
+    '(',
+    ...serviceBuildCommands(service, services, {
+      repositoryUri: '$IMAGE_REPOSITORY_URI',
+      cacheRepositoryUri: '$CACHE_REPOSITORY_URI',
+      pipelineBuild: false,
+    }).map((command) => `  ${command}`),
+    ')',
+  ].join('\n') + '\n';
+}
+
+/**
+ * Bash script run by a service's preview deploy build once its image build
+ * has finished. Nothing the image build wrote is trusted for names: the pull
+ * request and commit come from CodeBuild's record of the build, the pull
+ * request state from GitHub and the image digest from ECR. A closed pull
+ * request has its preview stack deleted. Otherwise the image is swapped into
+ * the latest release, the preview stack and the release are deployed, the
+ * integration tests run against it and the preview URL is posted as a commit
+ * status. Expects PREVIEW_BUILD_ARN, DEPLOY_BUCKET_NAME,
+ * IMAGE_REPOSITORY_URI, CFN_EXEC_ROLE_ARN and GITHUB_STATUS_TOKEN.
+ */
+export function renderPreviewDeployScript(options: PreviewScriptOptions): string {
+  const { service, config } = options;
+  const { composeService } = service.image!;
+  const checkout = service.repo!;
+  const githubApi = `https://api.github.com/repos/${GITHUB_OWNER}/${service.repo}`;
+
+  return [
+    '#!/bin/bash',
+    `# Pull request preview for ${service.name}, generated from the HealthCDK service registry`,
+    'set -euo pipefail',
+    'read -r SOURCE_VERSION COMMIT BUILD_STATUS <<< "$(aws codebuild batch-get-builds --ids "${PREVIEW_BUILD_ARN##*/}" \\',
+    '  --query "builds[0].[sourceVersion, resolvedSourceVersion, buildStatus]" --output text)"',
+    'PR_NUMBER="${SOURCE_VERSION#pr/}"',
+    '[[ "$PR_NUMBER" =~ ^[0-9]+$ && "$COMMIT" =~ ^[0-9a-f]{40}$ ]] || { echo "❌ $PREVIEW_BUILD_ARN did not build a pull request"; exit 1; }',
+    ...previewNameLines(service, config),
+    '',
+    '# post_status <state> <description> [target url]',
+    'post_status() {',
+    `  jq -n --arg state "$1" --arg description "$2" --arg url "\${3:-$CODEBUILD_BUILD_URL}" '{state: $state, description: $description, target_url: $url, context: "${PREVIEW_STATUS_CONTEXT}"}' \\`,
+    '    | curl -sf -X POST -H "Authorization: Bearer $GITHUB_STATUS_TOKEN" -H "Accept: application/vnd.github+json" \\',
+    `      "${githubApi}/statuses/$COMMIT" -d @- > /dev/null \\`,
+    '    || echo "⚠️ Could not post the $1 status to GitHub"',
+    '}',
+    '',
+    `PR_STATE=$(curl -sf -H "Authorization: Bearer $GITHUB_STATUS_TOKEN" -H "Accept: application/vnd.github+json" "${githubApi}/pulls/$PR_NUMBER" | jq -r .state)`,
+    'if [ "$PR_STATE" = "closed" ]; then',
+    '  echo "Pull request #$PR_NUMBER closed, deleting preview $PREVIEW_ID"',
+    '  aws cloudformation delete-stack --stack-name "$STACK" --role-arn "$CFN_EXEC_ROLE_ARN"',
+    '  aws cloudformation wait stack-delete-complete --stack-name "$STACK"',
+    '  exit 0',
+    'fi',
+    'if [ "$BUILD_STATUS" != "SUCCEEDED" ]; then',
+    '  post_status failure "Preview image build for $PREVIEW_ID failed"',
+    '  exit 1',
+    'fi',
+    '',
+    'trap \'post_status failure "Preview $PREVIEW_ID failed, see the build log"\' ERR',
+    'post_status pending "Deploying preview $PREVIEW_ID"',
+    '',
+    `echo "==== PACKAGING $RELEASE_ID ===="`,
+    'DIGEST=$(aws ecr describe-images --repository-name "${IMAGE_REPOSITORY_URI#*/}" --image-ids imageTag="$RELEASE_ID" --query "imageDetails[0].imageDigest" --output text)',
+    '[[ "$DIGEST" =~ ^sha256:[0-9a-f]{64}$ ]] || { echo "❌ No $RELEASE_ID image in $IMAGE_REPOSITORY_URI"; false; }',
+    `BASE_RELEASE=$(aws s3 cp "s3://$DEPLOY_BUCKET_NAME/${LATEST_RELEASE_KEY}" -)`,
+    `echo "Swapping ${composeService} into release $BASE_RELEASE"`,
+    'rm -rf /tmp/preview && mkdir -p /tmp/preview',
+    `aws s3 cp "s3://$DEPLOY_BUCKET_NAME/${releaseArtifactKey('$BASE_RELEASE')}" - | tar -xz -C /tmp/preview`,
+    `rm -rf /tmp/preview/workspace/${checkout}`,
+    '# Only the service\'s own checkout is taken from the image build\'s part',
+    `aws s3 cp "s3://$DEPLOY_BUCKET_NAME/${releasePartKey('$RELEASE_ID', service.name)}" - | tar -xz --no-same-owner -C /tmp/preview/workspace ${checkout}`,
+    `OVERRIDE=/tmp/preview/workspace/${COMPOSE_RELEASE_FILE}`,
+    `grep -q "^  ${composeService}:$" "$OVERRIDE" || { echo "❌ Release $BASE_RELEASE does not pin ${composeService}"; false; }`,
+    `sed -i "/^  ${composeService}:$/,/image:/ s|image: .*|image: $IMAGE_REPOSITORY_URI@$DIGEST|" "$OVERRIDE"`,
+    'tar -czf /tmp/preview/docker_workspace.tar.gz -C /tmp/preview workspace',
+    `aws s3 cp /tmp/preview/docker_workspace.tar.gz "s3://$DEPLOY_BUCKET_NAME/${releaseArtifactKey('$RELEASE_ID')}"`,
+    '',
+    'echo "==== DEPLOYING $STACK ===="',
+    '# Every deploy pushes the expiry back',
+    `EXPIRES_AT=$(date -u -d "+${config.ttlHours} hours" +%Y-%m-%dT%H:%M:%SZ)`,
+    '(',
+    '  cd "$CODEBUILD_SRC_DIR"',
+    '  npm install --no-audit --no-fund',
+    `  npx cdk deploy "$STACK" --exclusively --require-approval never -c preview="$PREVIEW_ID" --tags "${PREVIEW_EXPIRES_TAG}=$EXPIRES_AT"`,
+    ')',
+    '',
+    'echo "Waiting for the preview host to register with SSM..."',
+    'for attempt in $(seq 1 60); do',
+    `  REGISTERED=$(aws ssm describe-instance-information --filters "Key=tag:${ENV_TAG},Values=$PREVIEW_ENV" --query "length(InstanceInformationList)" --output text)`,
+    '  [ "$REGISTERED" != "0" ] && break',
+    '  [ "$attempt" -eq 60 ] && { echo "❌ No $PREVIEW_ENV host registered with SSM"; false; }',
+    '  sleep 10',
+    'done',
+    `COMMAND_ID=$(aws ssm send-command --document-name "${previewDeployDocumentName(ID)}" --targets "Key=tag:${ENV_TAG},Values=$PREVIEW_ENV" --parameters "releaseId=$RELEASE_ID" --timeout-seconds ${PREVIEW_DEPLOY_TIMEOUT_SECONDS} --comment "Deploy $RELEASE_ID" --query "Command.CommandId" --output text)`,
+    `bash ${SSM_WAIT_SCRIPT_PATH} "$COMMAND_ID"`,
+    '',
+    'echo "==== INTEGRATION TESTS against $PREVIEW_URL ===="',
+    '(',
+    '  cd "$CODEBUILD_SRC_DIR_HealthIntegrationTests"',
+    '  # Services build on the project\'s default JDK; the suites need 21 like in the pipeline',
+    '  export JAVA_HOME=$(ls -d /usr/lib/jvm/java-21-amazon-corretto* | head -n 1)',
+    `  HEALTH_BASE_URL="$PREVIEW_URL" bash ${INTEGRATION_TEST_SCRIPT_PATH}`,
+    ')',
+    '',
+    'post_status success "Preview $PREVIEW_ID is live" "$PREVIEW_URL"',
+    'echo "✅ Preview $PREVIEW_ID is live at $PREVIEW_URL"',
+  ].join('\n') + '\n';
+}
+
+/**
+ * Bash script run on a schedule that deletes every preview stack whose
+ * expiry tag has passed. Stacks without the tag were not created by a
+ * preview build and are left alone. Expects CFN_EXEC_ROLE_ARN.
+ */
+export function renderPreviewReaperScript(): string {
+  return [
+    '#!/bin/bash',
+    '# Pull request preview reaper, generated from the HealthCDK preview config',
+    'set -euo pipefail',
+    'NOW=$(date -u +%s)',
+    '',
+    `aws cloudformation describe-stacks --query "Stacks[?starts_with(StackName, '${PREVIEW_STACK_PREFIX}')].[StackName, StackStatus, Tags[?Key=='${PREVIEW_EXPIRES_TAG}'].Value | [0]]" --output text \\`,
+    '  | while read -r STACK STATUS EXPIRES; do',
+    '    if [ "$STATUS" = "DELETE_IN_PROGRESS" ]; then',
+    '      continue',
+    '    fi',
+    '    if [ "$EXPIRES" = "None" ]; then',
+    `      echo "⚠️ $STACK has no ${PREVIEW_EXPIRES_TAG} tag, leaving it"`,
+    '      continue',
+    '    fi',
+    '    if [ "$(date -u -d "$EXPIRES" +%s)" -le "$NOW" ]; then',
+    '      echo "Deleting $STACK, expired at $EXPIRES"',
+    '      aws cloudformation delete-stack --stack-name "$STACK" --role-arn "$CFN_EXEC_ROLE_ARN"',
+    '    else',
+    '      echo "Keeping $STACK until $EXPIRES"',
+    '    fi',
+    '  done',
+  ].join('\n') + '\n';
+}
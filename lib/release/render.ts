@@ -0,0 +1,179 @@
+import * as path from 'path';
+import { HEALTH_GATE_DEADLINE_SECONDS } from '../healthgate/render';
+import { DATA_MOUNT_POINT } from '../host/userData';
+
+export const RELEASES_DIR = '/home/ec2-user/releases';
+export const CURRENT_RELEASE_LINK = '/home/ec2-user/current';
+export const RELEASE_SCRIPT_PATH = '/home/ec2-user/bin/release.sh';
+export const HEALTH_GATE_PATH = '/home/ec2-user/bin/health-gate.sh';
+// Compose override written by the Package stage that pins every service image by digest
+export const COMPOSE_RELEASE_FILE = 'docker-compose.release.yml';
+// Id of the most recently packaged release, which pull request previews are built on.
+// Outside releases/, which the deploy bucket expires.
+export const LATEST_RELEASE_KEY = 'pointers/latest';
+// Id of the release that last passed the health gate. On the data volume, so a replacement host restarts it.
+export const LAST_GOOD_RELEASE_FILE = `${DATA_MOUNT_POINT}/health/last-good`;
+// Env file with the application secrets, referenced by every image service in the compose override
+export const SECRETS_ENV_FILE = '/etc/health/app.env';
+
+export interface ReleaseSecret {
+  envVar: string;
+  secretId: string;
+  region: string;
+}
+
+// Time a release gets to pull its images and start its containers before the gate runs
+export const RELEASE_START_SECONDS = 300;
+
+/**
+ * Longest release.sh runs: the release is started and gated, then on a failed
+ * gate the previous release is started and gated again. The command running it
+ * must allow at least this long or it is killed before the rollback.
+ */
+export function releaseTimeoutSeconds(gateDeadlineSeconds: number = HEALTH_GATE_DEADLINE_SECONDS): number {
+  return 2 * (RELEASE_START_SECONDS + gateDeadlineSeconds);
+}
+
+// Directory the pre-release deploys extracted into, stopped once on the first release
+const LEGACY_WORKSPACE_DIR = '/home/ec2-user/workspace';
+
+/** S3 key of the packaged workspace for a release. */
+export function releaseArtifactKey(releaseId: string): string {
+  return `releases/${releaseId}/docker_workspace.tar.gz`;
+}
+
+/** S3 key of one service's built checkout, picked up by the assemble action. */
+export function releasePartKey(releaseId: string, serviceName: string): string {
+  return `releases/${releaseId}/parts/${serviceName}.tar.gz`;
+}
+
+/**
+ * S3 prefix a stage's hosts keep their last good releases under. Releases
+ * expire from releases/ after a while; these copies do not, so a replacement
+ * host can restore a last good release of any age.
+ */
+export function keptReleasePrefix(stage: string): string {
+  return `kept-releases/${stage}`;
+}
+
+/** S3 key holding the pushed image digest for a compose service. */
+export function releaseImageKey(releaseId: string, composeService: string): string {
+  return `releases/${releaseId}/images/${composeService}`;
+}
+
+/**
+ * Bash script run on the instance for every deploy:
+ *   release.sh <release id> <deploy bucket> <ecr registry>
+ *
+ * Extracts the release into its own directory, points `current` at it and
+ * starts it from the images pinned in its compose override. Releases
+ * packaged before images moved to ECR are still built on the instance.
+ * `secrets` are fetched from Secrets Manager into a root-only env file first,
+ * so a release never starts with stale or missing values. If the health gate
+ * passes the release is recorded as last good and older releases beyond
+ * `retainedReleases` are removed; otherwise the last good release is started
+ * again and the script exits non-zero. With `keptPrefix`, the last
+ * `retainedReleases` good releases are also copied under it in the bucket,
+ * and a release expired from releases/ is downloaded from there.
+ */
+export function renderReleaseScript(retainedReleases: number, secrets: ReleaseSecret[] = [], keptPrefix?: string): string {
+  const keptKey = `${keptPrefix}/$RELEASE_ID/docker_workspace.tar.gz`;
+  return [
+    '#!/bin/bash',
+    'set -u',
+    'RELEASE_ID="$1"',
+    'BUCKET="$2"',
+    'REGISTRY="$3"',
+    `ROOT=${RELEASES_DIR}`,
+    `CURRENT=${CURRENT_RELEASE_LINK}`,
+    `LAST_GOOD_FILE=${LAST_GOOD_RELEASE_FILE}`,
+    '',
+    'compose() {',
+    `  if [ -f "$CURRENT/workspace/${COMPOSE_RELEASE_FILE}" ]; then`,
+    `    (cd "$CURRENT/workspace" && docker-compose -f docker-compose.yml -f ${COMPOSE_RELEASE_FILE} "$@")`,
+    '  else',
+    '    (cd "$CURRENT/workspace" && docker-compose "$@")',
+    '  fi',
+    '}',
+    '',
+    'activate() {',
+    '  if [ -d "$CURRENT/workspace" ]; then',
+    '    compose down',
+    `  elif [ -d ${LEGACY_WORKSPACE_DIR} ]; then`,
+    `    (cd ${LEGACY_WORKSPACE_DIR} && docker-compose down) || true`,
+    '  fi',
+    '  ln -sfn "$ROOT/$1" "$CURRENT"',
+    '  echo "current -> $1"',
+    `  if [ -f "$CURRENT/workspace/${COMPOSE_RELEASE_FILE}" ]; then`,
+    '    aws ecr get-login-password | docker login --username AWS --password-stdin "$REGISTRY"',
+    '    compose pull && compose up -d --no-build',
+    '  else',
+    '    compose up -d --build',
+    '  fi',
+    '}',
+    '',
+    'render_secrets() {',
+    `  mkdir -p ${path.posix.dirname(SECRETS_ENV_FILE)} && chmod 700 ${path.posix.dirname(SECRETS_ENV_FILE)} || return 1`,
+    '  local tmp value',
+    `  tmp=$(mktemp ${SECRETS_ENV_FILE}.XXXXXX) || return 1`,
+    ...secrets.flatMap((secret) => [
+      `  value=$(aws secretsmanager get-secret-value --region ${secret.region} --secret-id ${secret.secretId} --query SecretString --output text) || { rm -f "$tmp"; return 1; }`,
+      `  printf '%s=%s\\n' ${secret.envVar} "$value" >> "$tmp"`,
+    ]),
+    `  mv "$tmp" ${SECRETS_ENV_FILE}`,
+    '}',
+    ...(keptPrefix ? [
+      '',
+      '# Refreshes the kept copy of a healthy release, then drops the oldest beyond the retained count',
+      'keep_release() {',
+      `  aws s3 cp "s3://$BUCKET/${releaseArtifactKey('$RELEASE_ID')}" "s3://$BUCKET/${keptKey}" --quiet \\`,
+      `    || aws s3 cp "s3://$BUCKET/${keptKey}" "s3://$BUCKET/${keptKey}" --metadata-directive REPLACE --quiet \\`,
+      '    || return 1',
+      `  aws s3api list-objects-v2 --bucket "$BUCKET" --prefix "${keptPrefix}/" --query "sort_by(Contents, &LastModified)[].Key" --output text \\`,
+      `    | tr '\\t' '\\n' | head -n -${retainedReleases} | while read -r key; do`,
+      '    aws s3 rm "s3://$BUCKET/$key" --quiet',
+      '  done',
+      '}',
+    ] : []),
+    '',
+    'mkdir -p "$ROOT/$RELEASE_ID"',
+    'if [ ! -d "$ROOT/$RELEASE_ID/workspace" ]; then',
+    ...(keptPrefix
+      ? [
+        `  aws s3 cp "s3://$BUCKET/${releaseArtifactKey('$RELEASE_ID')}" "$ROOT/$RELEASE_ID/docker_workspace.tar.gz" \\`,
+        `    || aws s3 cp "s3://$BUCKET/${keptKey}" "$ROOT/$RELEASE_ID/docker_workspace.tar.gz" || exit 1`,
+      ]
+      : [`  aws s3 cp "s3://$BUCKET/${releaseArtifactKey('$RELEASE_ID')}" "$ROOT/$RELEASE_ID/docker_workspace.tar.gz" || exit 1`]),
+    '  tar -xzf "$ROOT/$RELEASE_ID/docker_workspace.tar.gz" -C "$ROOT/$RELEASE_ID" || exit 1',
+    '  rm -f "$ROOT/$RELEASE_ID/docker_workspace.tar.gz"',
+    'fi',
+    '',
+    'render_secrets || { echo "❌ Could not render secrets for release $RELEASE_ID"; exit 1; }',
+    'activate "$RELEASE_ID"',
+    '',
+    `if bash ${HEALTH_GATE_PATH}; then`,
+    '  mkdir -p "$(dirname "$LAST_GOOD_FILE")"',
+    '  echo "$RELEASE_ID" > "$LAST_GOOD_FILE"',
+    '  echo "Release $RELEASE_ID is healthy"',
+    ...(keptPrefix ? ['  keep_release || echo "⚠️ Could not keep a copy of release $RELEASE_ID"'] : []),
+    `  ls -1dt "$ROOT"/*/ | tail -n +${retainedReleases + 1} | while read -r dir; do`,
+    '    echo "Removing old release $(basename "$dir")"',
+    '    rm -rf "$dir"',
+    '  done',
+    '  docker system prune -f',
+    '  exit 0',
+    'fi',
+    '',
+    'echo "❌ Release $RELEASE_ID failed the health gate"',
+    'PREVIOUS=$(cat "$LAST_GOOD_FILE" 2>/dev/null || true)',
+    'if [ -z "$PREVIOUS" ] || [ "$PREVIOUS" = "$RELEASE_ID" ] || [ ! -d "$ROOT/$PREVIOUS/workspace" ]; then',
+    '  echo "No previous good release to roll back to"',
+    '  exit 1',
+    'fi',
+    '',
+    'echo "Rolling back to release $PREVIOUS"',
+    'activate "$PREVIOUS"',
+    `bash ${HEALTH_GATE_PATH} || echo "⚠️ Rolled back release $PREVIOUS is unhealthy too"`,
+    'exit 1',
+  ].join('\n') + '\n';
+}
@@ -0,0 +1,122 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct, Node } from 'constructs';
+import * as kms from 'aws-cdk-lib/aws-kms';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+
+/**
+ * How far the existing buckets have been adopted, from the `dataBuckets`
+ * context key. An import cannot create the key, the log bucket or bucket
+ * policies the buckets refer to, so adoption takes three deploys:
+ * `foundation` creates the key and the log bucket only, `import` adds the
+ * buckets as they are for `cdk import`, and `managed` (the default) applies
+ * encryption, logging, TLS and lifecycle to them.
+ */
+export type DataBucketPhase = 'foundation' | 'import' | 'managed';
+
+const DATA_BUCKET_PHASES: DataBucketPhase[] = ['foundation', 'import', 'managed'];
+
+export function resolveDataBucketPhase(node: Node): DataBucketPhase {
+  const raw = node.tryGetContext('dataBuckets') ?? 'managed';
+  if (!DATA_BUCKET_PHASES.includes(raw)) {
+    throw new Error(`Unknown phase '${raw}' in context 'dataBuckets'. Expected one of: ${DATA_BUCKET_PHASES.join(', ')}`);
+  }
+  return raw;
+}
+
+export interface DataStackProps extends cdk.StackProps {
+  phase?: DataBucketPhase;
+}
+
+/**
+ * Buckets holding health data: AI models and inference results. Both already
+ * exist under these names, so they are adopted in phases (see
+ * DataBucketPhase) rather than created. Until they are managed, other stacks
+ * only get them by name. Everything here is retained when the stack is deleted.
+ */
+export class DataStack extends cdk.Stack {
+  public readonly dataKey: kms.Key;
+  public readonly accessLogsBucket: s3.Bucket;
+  public readonly modelStorageBucket: s3.IBucket;
+  public readonly modelResultsBucket: s3.IBucket;
+  private readonly phase: DataBucketPhase;
+
+  constructor(scope: Construct, id: string, props?: DataStackProps) {
+    super(scope, id, props);
+    this.phase = props?.phase ?? 'managed';
+
+    this.dataKey = new kms.Key(this, 'HealthDataKey', {
+      alias: 'alias/health-data',
+      description: 'Encrypts AI models and inference results',
+      enableKeyRotation: true,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    // S3 server access logs cannot be delivered to a KMS-encrypted bucket
+    this.accessLogsBucket = new s3.Bucket(this, 'DataAccessLogsBucket', {
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      enforceSSL: true,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+      lifecycleRules: [
+        {
+          id: 'ArchiveAccessLogs',
+          transitions: [{ storageClass: s3.StorageClass.GLACIER, transitionAfter: cdk.Duration.days(90) }],
+          expiration: cdk.Duration.days(730),
+        },
+      ],
+    });
+
+    this.modelStorageBucket = this.healthDataBucket('ModelStorageBucket', 'ai-health-model-storage', [
+      {
+        id: 'ArchiveOldModelVersions',
+        noncurrentVersionTransitions: [{ storageClass: s3.StorageClass.GLACIER_INSTANT_RETRIEVAL, transitionAfter: cdk.Duration.days(30) }],
+        abortIncompleteMultipartUploadAfter: cdk.Duration.days(7),
+      },
+    ]);
+
+    this.modelResultsBucket = this.healthDataBucket('ModelResultsBucket', 'aihealthinfra-modelsresults', [
+      {
+        id: 'TierOldResults',
+        transitions: [
+          { storageClass: s3.StorageClass.INFREQUENT_ACCESS, transitionAfter: cdk.Duration.days(30) },
+          { storageClass: s3.StorageClass.GLACIER_INSTANT_RETRIEVAL, transitionAfter: cdk.Duration.days(90) },
+          { storageClass: s3.StorageClass.DEEP_ARCHIVE, transitionAfter: cdk.Duration.days(365) },
+        ],
+        noncurrentVersionTransitions: [{ storageClass: s3.StorageClass.GLACIER_INSTANT_RETRIEVAL, transitionAfter: cdk.Duration.days(30) }],
+        abortIncompleteMultipartUploadAfter: cdk.Duration.days(7),
+      },
+    ]);
+  }
+
+  private healthDataBucket(id: string, bucketName: string, lifecycleRules: s3.LifecycleRule[]): s3.IBucket {
+    if (this.phase === 'foundation') {
+      return s3.Bucket.fromBucketName(this, id, bucketName);
+    }
+    if (this.phase === 'import') {
+      // Same construct path as the managed bucket, so the import adopts the resource the next deploy updates.
+      // Nothing here refers to other resources; SSE-S3 and blocked public access are what S3 already applies.
+      new s3.Bucket(this, id, {
+        bucketName,
+        encryption: s3.BucketEncryption.S3_MANAGED,
+        blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+        removalPolicy: cdk.RemovalPolicy.RETAIN,
+      });
+      return s3.Bucket.fromBucketName(this, `${id}ByName`, bucketName);
+    }
+
+    return new s3.Bucket(this, id, {
+      bucketName,
+      encryption: s3.BucketEncryption.KMS,
+      encryptionKey: this.dataKey,
+      bucketKeyEnabled: true,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      enforceSSL: true,
+      minimumTLSVersion: 1.2,
+      versioned: true,
+      serverAccessLogsBucket: this.accessLogsBucket,
+      serverAccessLogsPrefix: `${bucketName}/`,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+      lifecycleRules,
+    });
+  }
+}
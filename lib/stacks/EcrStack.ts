@@ -0,0 +1,77 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as ecr from 'aws-cdk-lib/aws-ecr';
+import { EnvironmentConfig, StageName } from '../config/environments';
+import { ServiceDefinition, imageServices } from '../config/services';
+
+interface EcrStackProps extends cdk.StackProps {
+  services: ServiceDefinition[];
+  // Stages whose retained releases pin release images by digest
+  environments: Record<StageName, EnvironmentConfig>;
+  // Tagged images kept per repository; at least releaseImageCount(environments)
+  maxImageCount?: number;
+}
+
+/**
+ * Release images each repository must keep. Every pipeline run pushes one image per service,
+ * and each stage pins the digests of its retained releases: rollbacks, kept-release restores and
+ * ECS stack starts all pull them. Stages can hold disjoint releases, so their retained counts
+ * add up, doubled to leave as many runs again that never became a retained release.
+ */
+export function releaseImageCount(environments: Record<StageName, EnvironmentConfig>): number {
+  return 2 * Object.values(environments).reduce((total, environment) => total + environment.retainedReleases, 0);
+}
+
+export class EcrStack extends cdk.Stack {
+  // Keyed by service name
+  public readonly repositories: Record<string, ecr.Repository> = {};
+  // Pull request preview images, keyed by service name. Kept apart so preview builds, which run pull
+  // request code, never get to push to the repositories releases and their layer cache come from.
+  public readonly previewRepositories: Record<string, ecr.Repository> = {};
+
+  constructor(scope: Construct, id: string, props: EcrStackProps) {
+    super(scope, id, props);
+
+    const { services, environments } = props;
+    const minImageCount = releaseImageCount(environments);
+    const maxImageCount = props.maxImageCount ?? minImageCount;
+    if (maxImageCount < minImageCount) {
+      throw new Error(`maxImageCount ${maxImageCount} would expire images of retained releases; keep at least ${minImageCount}`);
+    }
+
+    imageServices(services).forEach((service) => {
+      this.repositories[service.name] = new ecr.Repository(this, `${service.name}Repository`, {
+        repositoryName: `health/${service.name.toLowerCase()}`,
+        imageScanOnPush: true,
+        removalPolicy: cdk.RemovalPolicy.RETAIN,
+        lifecycleRules: [
+          {
+            rulePriority: 1,
+            description: 'Expire untagged layers left behind by re-pushed tags',
+            tagStatus: ecr.TagStatus.UNTAGGED,
+            maxImageAge: cdk.Duration.days(1),
+          },
+          {
+            rulePriority: 2,
+            description: `Keep the last ${maxImageCount} release images`,
+            tagStatus: ecr.TagStatus.ANY,
+            maxImageCount,
+          },
+        ],
+      });
+
+      this.previewRepositories[service.name] = new ecr.Repository(this, `${service.name}PreviewRepository`, {
+        repositoryName: `health/${service.name.toLowerCase()}-preview`,
+        imageScanOnPush: true,
+        lifecycleRules: [
+          {
+            rulePriority: 1,
+            description: 'Expire pull request preview images',
+            tagStatus: ecr.TagStatus.ANY,
+            maxImageAge: cdk.Duration.days(14),
+          },
+        ],
+      });
+    });
+  }
+}
@@ -0,0 +1,398 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as acm from 'aws-cdk-lib/aws-certificatemanager';
+import * as autoscaling from 'aws-cdk-lib/aws-autoscaling';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as cwActions from 'aws-cdk-lib/aws-cloudwatch-actions';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as ecr from 'aws-cdk-lib/aws-ecr';
+import * as ecs from 'aws-cdk-lib/aws-ecs';
+import * as elbv2 from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import * as route53Targets from 'aws-cdk-lib/aws-route53-targets';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import * as ssm from 'aws-cdk-lib/aws-ssm';
+import * as wafv2 from 'aws-cdk-lib/aws-wafv2';
+import { EcsHostingConfig, EnvironmentConfig } from '../config/environments';
+import { SERVICES, ServiceDefinition, imageServices } from '../config/services';
+import { APP_SECRETS } from '../config/secrets';
+import { ENV_TAG, addStandardTags } from '../config/tags';
+import { buildSite } from '../nginx/routes';
+import { DATA_DEVICE, DATA_MOUNT_POINT, cassandraHostCommands } from '../host/userData';
+import { ecsClusterName, ecsImageParameterName, ecsServiceName } from '../ecs/render';
+import { rateLimitRules, routeTargets } from '../ecs/routing';
+import { DATA_VOLUME_BACKUP_TAG, DataVolumeBackup } from '../constructs/DataVolumeBackup';
+import { EnvironmentBudget } from '../constructs/EnvironmentBudget';
+
+const CASSANDRA_PORT = 9042;
+
+export interface EcsEnvironmentStackProps extends cdk.StackProps {
+  config: EnvironmentConfig;
+  // Service images, keyed by service name; the pipeline rolls the services onto each release's digests
+  // and records them in the image parameters stack deploys start from
+  imageRepositories: Record<string, ecr.IRepository>;
+  // Buckets the inference service reads models from and writes results to
+  modelBuckets: s3.IBucket[];
+  // Application secrets, in APP_SECRETS order, injected into every container
+  secrets: secretsmanager.ISecret[];
+}
+
+/**
+ * A stage on ECS instead of a docker-compose host: every image service runs
+ * on Fargate behind an ALB that routes and rate limits like the nginx site,
+ * through listener rules and a WAF web ACL. Cassandra stays in Docker on an
+ * EC2 host of one that claims the stage's data volume and a private record
+ * at boot, as the compose host does.
+ */
+export class EcsEnvironmentStack extends cdk.Stack {
+  public readonly cluster: ecs.Cluster;
+  public readonly services: Record<string, ecs.FargateService> = {};
+  public readonly loadBalancer: elbv2.ApplicationLoadBalancer;
+  public readonly webAcl: wafv2.CfnWebACL;
+  public readonly cassandraGroup: autoscaling.AutoScalingGroup;
+  public readonly dataVolume: ec2.Volume;
+  public readonly alarmTopic: sns.Topic;
+  public readonly dataVolumeBackup: DataVolumeBackup;
+
+  constructor(scope: Construct, id: string, props: EcsEnvironmentStackProps) {
+    super(scope, id, props);
+
+    const { config } = props;
+    if (config.hosting.target !== 'ecs') {
+      throw new Error(`Environment '${config.stage}' is not hosted on ECS`);
+    }
+    if (config.instanceSchedule) {
+      throw new Error(`Environment '${config.stage}' is hosted on ECS; instanceSchedule only applies to compose hosts`);
+    }
+    const hosting = config.hosting;
+    const site = buildSite(config.domainName);
+
+    // Two AZs for the load balancer; tasks get public IPs so no NAT gateway is needed to pull images
+    const vpc = new ec2.Vpc(this, 'Vpc', {
+      maxAzs: 2,
+      natGateways: 0,
+      subnetConfiguration: [{ name: 'Public', subnetType: ec2.SubnetType.PUBLIC, cidrMask: 24 }],
+    });
+
+    const albSg = new ec2.SecurityGroup(this, 'LoadBalancerSG', {
+      vpc,
+      allowAllOutbound: true,
+      description: 'Security group for the environment load balancer',
+    });
+    config.allowedCidrs.forEach((cidr) => {
+      albSg.addIngressRule(ec2.Peer.ipv4(cidr), ec2.Port.tcp(80), 'Allow HTTP traffic');
+      albSg.addIngressRule(ec2.Peer.ipv4(cidr), ec2.Port.tcp(443), 'Allow HTTPS traffic');
+    });
+    const tasksSg = new ec2.SecurityGroup(this, 'TasksSG', {
+      vpc,
+      allowAllOutbound: true,
+      description: 'Security group for the environment Fargate tasks',
+    });
+
+    // Services reach Cassandra by name; its host points the record at itself when it boots
+    const privateZone = new route53.PrivateHostedZone(this, 'PrivateZone', {
+      zoneName: `${config.stage}.health.internal`,
+      vpc,
+    });
+    const cassandraRecordName = `cassandra.${privateZone.zoneName}`;
+    [this.dataVolume, this.cassandraGroup] = this.addCassandraHost(config, hosting, vpc, tasksSg, privateZone, cassandraRecordName);
+
+    // ---------- Services ----------
+    this.cluster = new ecs.Cluster(this, 'Cluster', {
+      vpc,
+      clusterName: ecsClusterName(config.stage),
+      containerInsightsV2: ecs.ContainerInsights.ENABLED,
+    });
+    const logGroup = new logs.LogGroup(this, 'ServiceLogs', {
+      logGroupName: `/health/${config.stage}/ecs`,
+      retention: logs.RetentionDays.ONE_MONTH,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+    const secrets = Object.fromEntries(APP_SECRETS.map((secret, index) =>
+      [secret.envVar, ecs.Secret.fromSecretsManager(props.secrets[index])]));
+
+    imageServices(SERVICES).forEach((service) => {
+      this.services[service.name] = this.addService(service, config, hosting, {
+        repository: props.imageRepositories[service.name],
+        logGroup,
+        securityGroup: tasksSg,
+        secrets,
+        environment: { CASSANDRA_HOST: cassandraRecordName },
+        modelBuckets: props.modelBuckets,
+      });
+    });
+
+    // ---------- Load balancer ----------
+    const zone = route53.HostedZone.fromLookup(this, 'Zone', { domainName: config.hostedZoneName });
+    const certificate = new acm.Certificate(this, 'Certificate', {
+      domainName: config.domainName,
+      validation: acm.CertificateValidation.fromDns(zone),
+    });
+
+    this.loadBalancer = new elbv2.ApplicationLoadBalancer(this, 'LoadBalancer', {
+      vpc,
+      internetFacing: true,
+      securityGroup: albSg,
+    });
+    // Ingress comes from allowedCidrs above, not from the listeners
+    this.loadBalancer.addListener('Http', {
+      port: 80,
+      open: false,
+      defaultAction: elbv2.ListenerAction.redirect({ protocol: 'HTTPS', port: '443', permanent: true }),
+    });
+    const https = this.loadBalancer.addListener('Https', {
+      port: 443,
+      open: false,
+      certificates: [certificate],
+      sslPolicy: elbv2.SslPolicy.RECOMMENDED_TLS,
+    });
+
+    // Same routes as frontend.conf: `/` is the default action, longer prefixes get rules
+    const targetGroups = routeTargets(site, SERVICES).map(({ service, pathPatterns }, index) => {
+      const { composeService, port } = service.image!;
+      const probe = service.readinessProbe?.type === 'http' ? service.readinessProbe : undefined;
+      return https.addTargets(service.name, {
+        ...(pathPatterns ? { priority: (index + 1) * 10, conditions: [elbv2.ListenerCondition.pathPatterns(pathPatterns)] } : {}),
+        port,
+        protocol: elbv2.ApplicationProtocol.HTTP,
+        targets: [this.services[service.name].loadBalancerTarget({ containerName: composeService, containerPort: port })],
+        healthCheck: probe ? { path: probe.path, healthyHttpCodes: `${probe.expectedStatus}` } : undefined,
+        deregistrationDelay: cdk.Duration.seconds(30),
+      });
+    });
+
+    new route53.ARecord(this, 'Record', {
+      zone,
+      recordName: config.domainName,
+      target: route53.RecordTarget.fromAlias(new route53Targets.LoadBalancerTarget(this.loadBalancer)),
+    });
+
+    // Equivalent of ratelimits.conf
+    this.webAcl = new wafv2.CfnWebACL(this, 'WebAcl', {
+      name: `health-${config.stage}`,
+      scope: 'REGIONAL',
+      defaultAction: { allow: {} },
+      rules: rateLimitRules(site),
+      visibilityConfig: { sampledRequestsEnabled: true, cloudWatchMetricsEnabled: true, metricName: `health-${config.stage}` },
+    });
+    new wafv2.CfnWebACLAssociation(this, 'WebAclAssociation', {
+      resourceArn: this.loadBalancer.loadBalancerArn,
+      webAclArn: this.webAcl.attrArn,
+    });
+
+    // ---------- Alarms, backups and budget ----------
+    this.alarmTopic = new sns.Topic(this, 'AlarmTopic', {
+      displayName: `Health ${config.stage} service alarms`,
+    });
+    this.addAlarms(config, targetGroups);
+
+    this.dataVolumeBackup = new DataVolumeBackup(this, 'DataVolumeBackup', {
+      stage: config.stage,
+      volume: this.dataVolume,
+      deviceName: DATA_DEVICE,
+      mountPoint: DATA_MOUNT_POINT,
+      ...config.dataVolumeBackup,
+    });
+
+    new EnvironmentBudget(this, 'Budget', {
+      envName: config.stage,
+      budget: config.budget,
+      notificationTopic: this.alarmTopic,
+    });
+
+    addStandardTags(this, config.stage);
+  }
+
+  private addService(
+    service: ServiceDefinition,
+    config: EnvironmentConfig,
+    hosting: EcsHostingConfig,
+    options: {
+      repository: ecr.IRepository;
+      logGroup: logs.ILogGroup;
+      securityGroup: ec2.ISecurityGroup;
+      secrets: Record<string, ecs.Secret>;
+      environment: Record<string, string>;
+      modelBuckets: s3.IBucket[];
+    },
+  ): ecs.FargateService {
+    const sizing = hosting.services[service.name];
+    if (!sizing) {
+      throw new Error(`Environment '${config.stage}' has no ECS sizing for ${service.name}`);
+    }
+    const { composeService, port } = service.image!;
+
+    const taskDefinition = new ecs.FargateTaskDefinition(this, `${service.name}Task`, {
+      family: ecsServiceName(config.stage, service),
+      cpu: sizing.cpu,
+      memoryLimitMiB: sizing.memoryLimitMiB,
+    });
+    // Stack deploys start from the digest the pipeline last deployed healthy; pipeline deploys pin each release's
+    const image = ssm.StringParameter.valueForStringParameter(this, ecsImageParameterName(config.stage, service));
+    options.repository.grantPull(taskDefinition.obtainExecutionRole());
+    taskDefinition.addContainer(composeService, {
+      image: ecs.ContainerImage.fromRegistry(image),
+      logging: ecs.LogDrivers.awsLogs({ logGroup: options.logGroup, streamPrefix: composeService }),
+      environment: options.environment,
+      secrets: options.secrets,
+      portMappings: port !== undefined ? [{ containerPort: port }] : [],
+    });
+    options.modelBuckets.forEach((bucket) => {
+      bucket.grantRead(taskDefinition.taskRole);
+      bucket.grantPut(taskDefinition.taskRole);
+    });
+
+    return new ecs.FargateService(this, `${service.name}Service`, {
+      cluster: this.cluster,
+      serviceName: ecsServiceName(config.stage, service),
+      taskDefinition,
+      desiredCount: sizing.desiredCount,
+      assignPublicIp: true,
+      vpcSubnets: { subnetType: ec2.SubnetType.PUBLIC },
+      securityGroups: [options.securityGroup],
+      minHealthyPercent: 100,
+      maxHealthyPercent: 200,
+      // Plays the part of the compose health gate: a release that never gets healthy is rolled back
+      circuitBreaker: { enable: true, rollback: true },
+    });
+  }
+
+  // Cassandra in Docker on an Auto Scaling group of one, with the data volume outside it
+  private addCassandraHost(
+    config: EnvironmentConfig,
+    hosting: EcsHostingConfig,
+    vpc: ec2.Vpc,
+    tasksSg: ec2.ISecurityGroup,
+    privateZone: route53.IHostedZone,
+    recordName: string,
+  ): [ec2.Volume, autoscaling.AutoScalingGroup] {
+    const hostSubnet = vpc.publicSubnets[0];
+    const volume = new ec2.Volume(this, 'CassandraDataVolume', {
+      availabilityZone: hostSubnet.availabilityZone,
+      size: cdk.Size.gibibytes(config.dataVolumeSizeGiB),
+      volumeType: ec2.EbsDeviceVolumeType.GP3,
+      encrypted: true,
+      snapshotId: config.dataVolumeSnapshotId,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    const sg = new ec2.SecurityGroup(this, 'CassandraSG', {
+      vpc,
+      allowAllOutbound: true,
+      description: 'Security group for the Cassandra host',
+    });
+    sg.addIngressRule(tasksSg, ec2.Port.tcp(CASSANDRA_PORT), 'Allow CQL from the services');
+    config.sshCidrs.forEach((cidr) => {
+      sg.addIngressRule(ec2.Peer.ipv4(cidr), ec2.Port.tcp(22), 'Allow SSH');
+    });
+
+    const role = new iam.Role(this, 'CassandraRole', {
+      assumedBy: new iam.ServicePrincipal('ec2.amazonaws.com'),
+    });
+    role.addManagedPolicy(iam.ManagedPolicy.fromAwsManagedPolicyName('AmazonSSMManagedInstanceCore'));
+    const ownedByStage = { StringEquals: { [`aws:ResourceTag/${ENV_TAG}`]: config.stage } };
+    role.addToPolicy(new iam.PolicyStatement({
+      actions: ['ec2:AttachVolume'],
+      resources: [
+        this.formatArn({ service: 'ec2', resource: 'volume', resourceName: '*' }),
+        this.formatArn({ service: 'ec2', resource: 'instance', resourceName: '*' }),
+      ],
+      conditions: ownedByStage,
+    }));
+    role.addToPolicy(new iam.PolicyStatement({
+      actions: ['ec2:DescribeVolumes'],
+      resources: ['*'],
+    }));
+    role.addToPolicy(new iam.PolicyStatement({
+      actions: ['route53:ChangeResourceRecordSets'],
+      resources: [privateZone.hostedZoneArn],
+      conditions: { 'ForAllValues:StringEquals': { 'route53:ChangeResourceRecordSetsNormalizedRecordNames': [recordName] } },
+    }));
+
+    const userData = ec2.UserData.forLinux();
+    userData.addCommands(...cassandraHostCommands(hosting.cassandraImage, {
+      privateRecord: { hostedZoneId: privateZone.hostedZoneId, recordName },
+      dataVolumeTag: { key: DATA_VOLUME_BACKUP_TAG, value: config.stage },
+      region: this.region,
+    }));
+
+    const launchTemplate = new ec2.LaunchTemplate(this, 'CassandraLaunchTemplate', {
+      instanceType: ec2.InstanceType.of(config.instanceClass, config.instanceSize),
+      machineImage: ec2.MachineImage.latestAmazonLinux({
+        generation: ec2.AmazonLinuxGeneration.AMAZON_LINUX_2,
+      }),
+      securityGroup: sg,
+      role,
+      userData,
+      blockDevices: [
+        {
+          deviceName: '/dev/xvda', // root volume
+          volume: ec2.BlockDeviceVolume.ebs(config.rootVolumeSizeGiB, { volumeType: ec2.EbsDeviceVolumeType.GP3, encrypted: true }),
+        },
+      ],
+    });
+
+    // Terminate first, launch second: the new host needs the volume the old one holds
+    const group = new autoscaling.AutoScalingGroup(this, 'CassandraGroup', {
+      vpc,
+      vpcSubnets: { subnets: [hostSubnet] },
+      launchTemplate,
+      minCapacity: 1,
+      maxCapacity: 1,
+      healthChecks: autoscaling.HealthChecks.ec2({ gracePeriod: cdk.Duration.minutes(15) }),
+      updatePolicy: autoscaling.UpdatePolicy.rollingUpdate({ maxBatchSize: 1, minInstancesInService: 0 }),
+    });
+    return [volume, group];
+  }
+
+  private addAlarms(config: EnvironmentConfig, targetGroups: elbv2.ApplicationTargetGroup[]) {
+    const alarmAction = new cwActions.SnsAction(this.alarmTopic);
+    const alarms = [
+      new cloudwatch.Alarm(this, 'Http5xxAlarm', {
+        alarmDescription: `The ${config.stage} load balancer and services returned more than 10 5xx responses in 5 minutes`,
+        metric: new cloudwatch.MathExpression({
+          expression: 'elb + targets',
+          usingMetrics: {
+            elb: this.loadBalancer.metrics.httpCodeElb(elbv2.HttpCodeElb.ELB_5XX_COUNT, { period: cdk.Duration.minutes(5) }),
+            targets: this.loadBalancer.metrics.httpCodeTarget(elbv2.HttpCodeTarget.TARGET_5XX_COUNT, { period: cdk.Duration.minutes(5) }),
+          },
+          period: cdk.Duration.minutes(5),
+        }),
+        threshold: 10,
+        evaluationPeriods: 1,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      }),
+      ...targetGroups.map((targetGroup, index) => new cloudwatch.Alarm(this, `UnhealthyTargetsAlarm${index}`, {
+        alarmDescription: `A ${config.stage} service behind the load balancer has unhealthy tasks`,
+        metric: targetGroup.metrics.unhealthyHostCount({ period: cdk.Duration.minutes(1), statistic: cloudwatch.Stats.MAXIMUM }),
+        threshold: 1,
+        evaluationPeriods: 3,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      })),
+      new cloudwatch.Alarm(this, 'CassandraStatusCheckAlarm', {
+        alarmDescription: `EC2 status checks failing on the ${config.stage} Cassandra host`,
+        metric: new cloudwatch.Metric({
+          namespace: 'AWS/EC2',
+          metricName: 'StatusCheckFailed',
+          dimensionsMap: { AutoScalingGroupName: this.cassandraGroup.autoScalingGroupName },
+          period: cdk.Duration.minutes(1),
+          statistic: cloudwatch.Stats.MAXIMUM,
+        }),
+        threshold: 1,
+        evaluationPeriods: 2,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.BREACHING,
+      }),
+    ];
+    alarms.forEach((alarm) => {
+      alarm.addAlarmAction(alarmAction);
+      alarm.addOkAction(alarmAction);
+    });
+  }
+}
@@ -0,0 +1,254 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as autoscaling from 'aws-cdk-lib/aws-autoscaling';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as iam from 'aws-cdk-lib/aws-iam'; 
+import * as ecr from 'aws-cdk-lib/aws-ecr';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import { EnvironmentConfig, stackPrefix } from '../config/environments';
+import { ENV_TAG, addStandardTags } from '../config/tags';
+import { DATA_DEVICE, DATA_MOUNT_POINT, hostSetupCommands } from '../host/userData';
+import { bucketNginxCommands, restoreLastGoodCommands, stageReleaseSecrets } from '../pipeline/deployCommands';
+import { keptReleasePrefix } from '../release/render';
+import { HostMonitoring } from '../constructs/HostMonitoring';
+import { DATA_VOLUME_BACKUP_TAG, DataVolumeBackup } from '../constructs/DataVolumeBackup';
+import { SiteDns } from '../constructs/SiteDns';
+import { InstanceScheduler } from '../constructs/InstanceScheduler';
+import { EnvironmentBudget } from '../constructs/EnvironmentBudget';
+
+export interface EnvironmentStackProps extends cdk.StackProps {
+  config: EnvironmentConfig;
+  // Service images the host pulls at deploy time
+  imageRepositories: ecr.IRepository[];
+  // Releases and nginx configs the host downloads at deploy time
+  deployBucket: s3.IBucket;
+  // Buckets the inference service reads models from and writes results to
+  modelBuckets: s3.IBucket[];
+  // Application secrets rendered into the containers' env file at release time
+  secrets: secretsmanager.ISecret[];
+}
+
+/**
+ * One docker-compose host per stage, kept alive by an Auto Scaling group of
+ * one. The Elastic IP and the data volume live outside the group; each new
+ * host claims both at boot and restarts the last good release, so a failed
+ * host comes back without a pipeline run.
+ */
+export class EnvironmentStack extends cdk.Stack {
+  public readonly autoScalingGroup: autoscaling.AutoScalingGroup;
+  public readonly dataVolume: ec2.Volume;
+  public readonly monitoring: HostMonitoring;
+  public readonly dataVolumeBackup: DataVolumeBackup;
+  public readonly dns: SiteDns;
+  public readonly scheduler?: InstanceScheduler;
+
+  constructor(scope: Construct, id: string, props: EnvironmentStackProps) {
+    super(scope, id, props);
+
+    const { config } = props;
+
+    // VPC for the environment, in a single AZ since the stage runs one host. Construct ids keep their
+    // original Dev names on every stage so dev's existing resources are not replaced.
+    const vpc = new ec2.Vpc(this, 'DevVpc', {
+      maxAzs: 1,
+      natGateways: 0,
+      subnetConfiguration: [
+        {
+          name: 'Public',
+          subnetType: ec2.SubnetType.PUBLIC,
+          cidrMask: 24,
+        },
+        {
+          name: 'PrivateSubnet',
+          subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
+          cidrMask: 24,
+        },
+      ],
+    });
+
+    // Elastic IP the stage's host claims at boot
+    const eip = new ec2.CfnEIP(this, 'DevInstanceEIP', {
+      domain: 'vpc',
+      tags: [{ key: 'Name', value: `${stackPrefix(config.stage)}InstanceEIP` }],
+    });
+
+    // Deploys go through SSM, so SSH is only opened to the configured CIDRs
+    const sg = new ec2.SecurityGroup(this, 'DevInstanceSG', {
+      vpc,
+      allowAllOutbound: true,
+      description: `Security group for the ${stackPrefix(config.stage)} host`,
+    });
+
+    config.sshCidrs.forEach((cidr) => {
+      sg.addIngressRule(ec2.Peer.ipv4(cidr), ec2.Port.tcp(22), 'Allow SSH');
+    });
+    config.allowedCidrs.forEach((cidr) => {
+      sg.addIngressRule(ec2.Peer.ipv4(cidr), ec2.Port.tcp(80), 'Allow HTTP traffic');
+      sg.addIngressRule(ec2.Peer.ipv4(cidr), ec2.Port.tcp(443), 'Allow HTTPS traffic');
+    });
+    //sg.addIngressRule(ec2.Peer.anyIpv4(), ec2.Port.tcp(5173), 'Allow frontend access');
+    
+    const instanceRole = new iam.Role(this, 'DevInstanceRole', {
+      assumedBy: new iam.ServicePrincipal('ec2.amazonaws.com'),
+    });
+    instanceRole.addManagedPolicy(iam.ManagedPolicy.fromAwsManagedPolicyName('AmazonSSMManagedInstanceCore'));
+    this.addPoliciesToInstanceRole(instanceRole, props);
+    props.imageRepositories.forEach((repository) => repository.grantPull(instanceRole));
+
+    // Add VPC endpoints for SSM and S3, this will allow the instance to be managed via SSM without public IP
+    vpc.addInterfaceEndpoint('SSMEndpoint', {
+      service: ec2.InterfaceVpcEndpointAwsService.SSM,
+      subnets: { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS },
+    });
+    vpc.addInterfaceEndpoint('SSMMessagesEndpoint', {
+      service: ec2.InterfaceVpcEndpointAwsService.SSM_MESSAGES,
+      subnets: { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS },
+    });
+    vpc.addInterfaceEndpoint('EC2MessagesEndpoint', {
+      service: ec2.InterfaceVpcEndpointAwsService.EC2_MESSAGES,
+      subnets: { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS },
+    });
+    vpc.addGatewayEndpoint('S3Endpoint', {
+      service: ec2.GatewayVpcEndpointAwsService.S3,
+      subnets: [{ subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS }],
+    });
+
+
+    // Docker + Cassandra volume, outside the group so it outlives every host. Pinned to the
+    // only public subnet's AZ, where the group launches.
+    const hostSubnet = vpc.publicSubnets[0];
+    this.dataVolume = new ec2.Volume(this, 'DevInstanceDataVolume', {
+      availabilityZone: hostSubnet.availabilityZone,
+      size: cdk.Size.gibibytes(config.dataVolumeSizeGiB),
+      volumeType: ec2.EbsDeviceVolumeType.GP3,
+      encrypted: true,
+      snapshotId: config.dataVolumeSnapshotId,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    const userData = ec2.UserData.forLinux();
+    userData.addCommands(...hostSetupCommands(config.domainName, {
+      eipAllocationId: eip.attrAllocationId,
+      dataVolumeTag: { key: DATA_VOLUME_BACKUP_TAG, value: config.stage },
+      region: this.region,
+    }));
+
+    const launchTemplate = new ec2.LaunchTemplate(this, 'DevInstanceLaunchTemplate', {
+      instanceType: ec2.InstanceType.of(config.instanceClass, config.instanceSize),
+      machineImage: ec2.MachineImage.latestAmazonLinux({
+        generation: ec2.AmazonLinuxGeneration.AMAZON_LINUX_2,
+      }),
+      securityGroup: sg,
+      role: instanceRole,
+      userData,
+      blockDevices: [
+        {
+          deviceName: '/dev/xvda', // root volume
+          volume: ec2.BlockDeviceVolume.ebs(config.rootVolumeSizeGiB, { volumeType: ec2.EbsDeviceVolumeType.GP3, encrypted: true }),
+        },
+      ],
+    });
+
+    // The old host must let go of the data volume before its replacement can attach it,
+    // so updates terminate first and launch second
+    this.autoScalingGroup = new autoscaling.AutoScalingGroup(this, 'DevInstanceGroup', {
+      vpc,
+      vpcSubnets: { subnets: [hostSubnet] },
+      launchTemplate,
+      minCapacity: 1,
+      maxCapacity: 1,
+      healthChecks: autoscaling.HealthChecks.ec2({ gracePeriod: cdk.Duration.minutes(15) }),
+      updatePolicy: autoscaling.UpdatePolicy.rollingUpdate({ maxBatchSize: 1, minInstancesInService: 0 }),
+    });
+    this.addHostAttachmentAccess(instanceRole, eip, config.stage);
+
+    // Deploys target the instance by its HealthEnv tag
+    addStandardTags(this, config.stage);
+
+    this.monitoring = new HostMonitoring(this, 'Monitoring', {
+      stage: config.stage,
+      autoScalingGroupName: this.autoScalingGroup.autoScalingGroupName,
+      userData,
+      role: instanceRole,
+    });
+
+    // Last, once the agent is shipping logs
+    userData.addCommands(...restoreLastGoodCommands({
+      domainName: config.domainName,
+      retainedReleases: config.retainedReleases,
+      keptReleasePrefix: keptReleasePrefix(config.stage),
+      secrets: stageReleaseSecrets(config.stage, config.region),
+      nginxCommands: bucketNginxCommands(config.stage),
+    }, props.deployBucket.bucketName, `${this.account}.dkr.ecr.${this.region}.amazonaws.com`));
+
+    this.dns = new SiteDns(this, 'Dns', {
+      envName: config.stage,
+      domainName: config.domainName,
+      hostedZoneName: config.hostedZoneName,
+      ipAddress: eip.ref,
+      healthCheck: {
+        // Backend health endpoint, so the check covers nginx, TLS and the API
+        path: '/v1/health',
+        alarmTopic: this.monitoring.alarmTopic,
+      },
+    });
+
+    this.dataVolumeBackup = new DataVolumeBackup(this, 'DataVolumeBackup', {
+      stage: config.stage,
+      volume: this.dataVolume,
+      deviceName: DATA_DEVICE,
+      mountPoint: DATA_MOUNT_POINT,
+      ...config.dataVolumeBackup,
+    });
+
+    if (config.instanceSchedule) {
+      this.scheduler = new InstanceScheduler(this, 'InstanceScheduler', {
+        envName: config.stage,
+        schedule: config.instanceSchedule,
+        alarms: [...this.monitoring.alarms, ...(this.dns.healthCheckAlarm ? [this.dns.healthCheckAlarm] : [])],
+      });
+    }
+
+    new EnvironmentBudget(this, 'Budget', {
+      envName: config.stage,
+      budget: config.budget,
+      notificationTopic: this.monitoring.alarmTopic,
+    });
+  }
+
+  // Each new host moves the Elastic IP and the data volume of its stage onto itself
+  private addHostAttachmentAccess(role: iam.Role, eip: ec2.CfnEIP, stage: string) {
+    const ownedByStage = { StringEquals: { [`aws:ResourceTag/${ENV_TAG}`]: stage } };
+    const instances = this.formatArn({ service: 'ec2', resource: 'instance', resourceName: '*' });
+    role.addToPolicy(new iam.PolicyStatement({
+      actions: ['ec2:AssociateAddress'],
+      resources: [this.formatArn({ service: 'ec2', resource: 'elastic-ip', resourceName: eip.attrAllocationId }), instances],
+      conditions: ownedByStage,
+    }));
+    role.addToPolicy(new iam.PolicyStatement({
+      actions: ['ec2:AttachVolume'],
+      resources: [this.formatArn({ service: 'ec2', resource: 'volume', resourceName: '*' }), instances],
+      conditions: ownedByStage,
+    }));
+    role.addToPolicy(new iam.PolicyStatement({
+      actions: ['ec2:DescribeVolumes'],
+      resources: ['*'],
+    }));
+  }
+
+  private addPoliciesToInstanceRole(role: iam.Role, props: EnvironmentStackProps) {
+    props.secrets.forEach((secret) => secret.grantRead(role));
+
+    props.deployBucket.grantRead(role);
+    // Healthy releases are copied out of the expiring releases/ prefix, keeping the newest few
+    props.deployBucket.grantPut(role, `${keptReleasePrefix(props.config.stage)}/*`);
+    props.deployBucket.grantDelete(role, `${keptReleasePrefix(props.config.stage)}/*`);
+
+    // S3 access for AI model storage
+    props.modelBuckets.forEach((bucket) => {
+      bucket.grantRead(role);
+      bucket.grantPut(role);
+    });
+  }
+}
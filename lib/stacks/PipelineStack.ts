@@ -1,194 +1,332 @@
 import * as cdk from 'aws-cdk-lib';
-import { Stack, StackProps, SecretValue } from 'aws-cdk-lib';
+import { Stack, StackProps } from 'aws-cdk-lib';
 import * as codepipeline from 'aws-cdk-lib/aws-codepipeline';
 import * as cpactions from 'aws-cdk-lib/aws-codepipeline-actions';
 import * as codebuild from 'aws-cdk-lib/aws-codebuild';
 import { Construct } from 'constructs';
 import * as iam from 'aws-cdk-lib/aws-iam';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as ecr from 'aws-cdk-lib/aws-ecr';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as codestarconnections from 'aws-cdk-lib/aws-codestarconnections';
+import { EnvironmentConfig, StageName, stackPrefix, stageTitle } from '../config/environments';
+import { GITHUB_OWNER, SERVICES, ServiceDefinition, imageServices, packagedServices, sourceServices } from '../config/services';
+import { assembleCommands, assembleRunOrder, packageRunOrder, serviceBuildCommands, sourceDependencies, unbuiltSources } from '../pipeline/serviceCommands';
+import { bucketNginxCommands, deployCommands, stageReleaseSecrets } from '../pipeline/deployCommands';
+import { keptReleasePrefix, releaseTimeoutSeconds } from '../release/render';
+import { renderSsmWaitScript, renderStartStoppedHostsScript } from '../healthgate/render';
+import { ecsClusterName, ecsImageParameterName, ecsServiceName, renderEcsDeployScript } from '../ecs/render';
+import { JUNIT_RESULTS_DIR, renderIntegrationTestScript } from '../integration/render';
+import { NotificationConfig } from '../config/notifications';
+import { PipelineNotifications } from '../constructs/PipelineNotifications';
+
+// Upper bound for the deploy script on the instance: release.sh through its rollback,
+// plus the downloads and host setup before it
+const DEPLOY_COMMAND_TIMEOUT_SECONDS = releaseTimeoutSeconds() + 300;
+// How long a started host gets to boot and register with SSM before a deploy gives up
+const HOST_START_TIMEOUT_SECONDS = 600;
+// Full output of the deploy commands; SSM itself keeps only the first 24,000 characters
+const DEPLOY_OUTPUT_LOG_GROUP = '/health/deploy-commands';
 
 interface PipelineStackProps extends StackProps {
-  deployBucketName: string;
+  deployBucket: s3.IBucket;
+  // Environments the release is promoted through, dev first
+  environments: Record<StageName, EnvironmentConfig>;
+  // ECR repositories keyed by service name
+  imageRepositories: Record<string, ecr.IRepository>;
+  // Who hears about pipeline runs and failed actions; the topic and digests exist either way
+  notifications?: NotificationConfig;
 }
 
 export class PipelineStack extends Stack {
+  public readonly githubConnection: codestarconnections.CfnConnection;
+  public readonly notifications: PipelineNotifications;
+
   constructor(scope: Construct, id: string, props: PipelineStackProps) {
     super(scope, id, props);
 
-    const { deployBucketName } = props;
+    const { deployBucket, environments, imageRepositories } = props;
+    const pipelineName = 'HealthServicePipeline';
+    const ecrRegistry = `${this.account}.dkr.ecr.${this.region}.amazonaws.com`;
 
     const pipeline = new codepipeline.Pipeline(this, "HealthServicePipeline", {
-      pipelineName: "HealthServicePipeline"
+      pipelineName,
     });
 
-    // Source stage
+    // Source stage. The connection is created PENDING: authorize it once under
+    // Developer Tools > Settings > Connections before the first pipeline run.
+    const githubConnection = new codestarconnections.CfnConnection(this, 'GitHubConnection', {
+      connectionName: 'health-github',
+      providerType: 'GitHub',
+    });
+    this.githubConnection = githubConnection;
     const repoArtifacts: { [key: string]: codepipeline.Artifact } = {};
     const sourceStage = pipeline.addStage({ stageName: 'Source' });
 
-    // Workspace repo goes at the root
-    repoArtifacts['HealthWorkspace'] = new codepipeline.Artifact('HealthWorkspace');
-    sourceStage.addAction(
-      new cpactions.GitHubSourceAction({
-        actionName: 'HealthWorkspace',
-        owner: 'S-Ungurean',
-        repo: 'HealthWorkspace',
-        branch: 'master',
-        oauthToken: SecretValue.secretsManager('GITHUB_TOKEN'),
-        output: repoArtifacts['HealthWorkspace'],
-        trigger: cpactions.GitHubTrigger.WEBHOOK,
-      })
-    );
-
-    ['HealthBEService','HealthDAO','HealthSAO','HealthFEService','HealthInferenceService','HealthCDK','HealthIntegrationTests'].forEach((repo) => {
-      const artifact = new codepipeline.Artifact(`${repo}`);
-      repoArtifacts[repo] = artifact;
+    sourceServices(SERVICES).forEach((service) => {
+      const artifact = new codepipeline.Artifact(service.name);
+      repoArtifacts[service.name] = artifact;
       sourceStage.addAction(
-        new cpactions.GitHubSourceAction({
-          actionName: `${repo}`,
-          owner: 'S-Ungurean',
-          repo,
-          branch: 'main',
-          oauthToken: SecretValue.secretsManager('GITHUB_TOKEN'),
+        new cpactions.CodeStarConnectionsSourceAction({
+          actionName: service.name,
+          connectionArn: githubConnection.attrConnectionArn,
+          owner: GITHUB_OWNER,
+          repo: service.repo!,
+          branch: service.branch!,
           output: artifact,
-          trigger: cpactions.GitHubTrigger.WEBHOOK,
+          triggerOnPush: true,
         })
       );
     });
 
-    // Package stage (does the building)
-    const packager = this.createPackagerProject(deployBucketName);
-    packager.addToRolePolicy(new iam.PolicyStatement({
-      actions: ['s3:PutObject', 's3:GetObject', 's3:ListBucket'],
-      resources: [
-        `arn:aws:s3:::${deployBucketName}`,
-        `arn:aws:s3:::${deployBucketName}/*`
-      ],
-    }));
-    pipeline.addStage({ stageName: 'Package' }).addAction(new cpactions.CodeBuildAction({
-      actionName: 'Package_Workspace',
-      project: packager,
-      input: repoArtifacts['HealthWorkspace']
+    // Every artifact of a run is keyed by the pipeline execution it came from
+    const releaseIdVariable = {
+      RELEASE_ID: { value: '#{codepipeline.PipelineExecutionId}' },
+    };
+
+    // Package stage: one build per service, libraries before the services using them, then a single assemble action
+    const packageStage = pipeline.addStage({ stageName: 'Package' });
+    packagedServices(SERVICES).forEach((service) => {
+      const repository = imageRepositories[service.name];
+      const project = this.createServiceBuildProject(service, deployBucket, ecrRegistry, repository);
+      repository?.grantPullPush(project);
+      this.addDeployBucketAccess(project, deployBucket);
+      packageStage.addAction(new cpactions.CodeBuildAction({
+        actionName: `Build_${service.name}`,
+        project,
+        input: repoArtifacts[service.name],
+        extraInputs: sourceDependencies(service, SERVICES).map((dependency) => repoArtifacts[dependency.name]),
+        environmentVariables: releaseIdVariable,
+        runOrder: packageRunOrder(service, SERVICES),
+      }));
+    });
+
+    const assembler = this.createAssembleProject(deployBucket.bucketName);
+    this.addDeployBucketAccess(assembler, deployBucket);
+    packageStage.addAction(new cpactions.CodeBuildAction({
+      actionName: 'Assemble_Workspace',
+      project: assembler,
+      input: repoArtifacts['HealthWorkspace'],
+      extraInputs: unbuiltSources(SERVICES).map((service) => repoArtifacts[service.name]),
+      environmentVariables: releaseIdVariable,
+      runOrder: assembleRunOrder(SERVICES),
     }));
 
     // Deploy stage
-    const deployProject = this.createDockerComposeDeployProject(deployBucketName);
-    deployProject.addToRolePolicy(new iam.PolicyStatement({
-      actions: ['ssm:SendCommand', 'ssm:GetCommandInvocation', 'ssm:ListCommands', 'ssm:ListCommandInvocations'],
-      resources: ['*'],
+    pipeline.addStage({ stageName: 'DeployToDev' }).addAction(
+      this.createDeployAction(environments.dev, deployBucket.bucketName, ecrRegistry, repoArtifacts['HealthWorkspace'], releaseIdVariable));
+
+    // Integration Test Stage
+    const integrationTestProject = this.createIntegrationTestRun(environments.dev);
+    pipeline.addStage({ stageName: 'IntegrationTests' }).addAction(new cpactions.CodeBuildAction({
+      actionName: 'Run_Integration_Tests',
+      project: integrationTestProject,
+      input: repoArtifacts['HealthIntegrationTests'],
     }));
-    deployProject.addToRolePolicy(new iam.PolicyStatement({
-      actions: ['s3:PutObject', 's3:GetObject', 's3:ListBucket'],
-      resources: [
-        `arn:aws:s3:::${deployBucketName}`,
-        `arn:aws:s3:::${deployBucketName}/*`
-      ],
+
+    // Promotion: the release that passed dev integration tests goes to staging, then prod after sign-off.
+    // Deploys only ever fetch releases/$RELEASE_ID, so nothing is rebuilt past the Package stage.
+    pipeline.addStage({ stageName: 'DeployToStaging' }).addAction(
+      this.createDeployAction(environments.staging, deployBucket.bucketName, ecrRegistry, repoArtifacts['HealthWorkspace'], releaseIdVariable));
+
+    pipeline.addStage({ stageName: 'ApproveProd' }).addAction(new cpactions.ManualApprovalAction({
+      actionName: 'Approve_Prod_Release',
+      additionalInformation: `Release #{codepipeline.PipelineExecutionId} passed dev integration tests and is live on https://${environments.staging.domainName}. Approve to promote the same release to https://${environments.prod.domainName}.`,
+      externalEntityLink: `https://${this.region}.console.aws.amazon.com/codesuite/codepipeline/pipelines/${pipelineName}/executions/#{codepipeline.PipelineExecutionId}/timeline?region=${this.region}`,
     }));
-    pipeline.addStage({ stageName: 'DeployToDev' }).addAction(new cpactions.CodeBuildAction({
+
+    pipeline.addStage({ stageName: 'DeployToProd' }).addAction(
+      this.createDeployAction(environments.prod, deployBucket.bucketName, ecrRegistry, repoArtifacts['HealthWorkspace'], releaseIdVariable));
+
+    // Hosts write to it with their CloudWatch agent permissions
+    const deployOutput = new logs.LogGroup(this, 'DeployCommandOutput', {
+      logGroupName: DEPLOY_OUTPUT_LOG_GROUP,
+      retention: logs.RetentionDays.ONE_MONTH,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    this.notifications = new PipelineNotifications(this, 'Notifications', {
+      pipeline,
+      commandOutput: deployOutput,
+      emails: [],
+      ...props.notifications,
+    });
+  }
+
+  private createDeployAction(
+    environment: EnvironmentConfig,
+    deployBucketName: string,
+    ecrRegistry: string,
+    input: codepipeline.Artifact,
+    environmentVariables: { [name: string]: codebuild.BuildEnvironmentVariable },
+  ): cpactions.CodeBuildAction {
+    if (environment.hosting.target === 'ecs') {
+      const ecsProject = this.createEcsDeployProject(deployBucketName, environment);
+      this.addEcsDeployAccess(ecsProject, environment, deployBucketName);
+      return new cpactions.CodeBuildAction({
+        actionName: 'Deploy_Ecs',
+        project: ecsProject,
+        input,
+        environmentVariables,
+      });
+    }
+    const deployProject = this.createDockerComposeDeployProject(deployBucketName, ecrRegistry, environment);
+    this.addSendCommandAccess(deployProject, environment);
+    return new cpactions.CodeBuildAction({
       actionName: 'Deploy_DockerCompose',
       project: deployProject,
-      input: repoArtifacts['HealthWorkspace']
+      input,
+      environmentVariables,
+    });
+  }
+
+  private addDeployBucketAccess(project: codebuild.PipelineProject, deployBucket: s3.IBucket) {
+    deployBucket.grantRead(project);
+    deployBucket.grantPut(project);
+  }
+
+  // Only the shell-script document, and only on instances tagged for this environment.
+  // The instances read the deploy bucket with their own role, so the project needs no S3 access.
+  private addSendCommandAccess(project: codebuild.PipelineProject, environment: EnvironmentConfig) {
+    project.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['ssm:SendCommand'],
+      resources: [this.formatArn({ service: 'ssm', resource: 'document', resourceName: 'AWS-RunShellScript', account: '' })],
+    }));
+    project.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['ssm:SendCommand'],
+      resources: [this.formatArn({ service: 'ec2', resource: 'instance', resourceName: '*' })],
+      conditions: { StringEquals: { 'ssm:resourceTag/HealthEnv': environment.stage } },
     }));
+    // Starts the environment's hosts when a schedule stopped them
+    project.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['ec2:StartInstances'],
+      resources: [this.formatArn({ service: 'ec2', resource: 'instance', resourceName: '*' })],
+      conditions: { StringEquals: { 'aws:ResourceTag/HealthEnv': environment.stage } },
+    }));
+    project.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['autoscaling:ResumeProcesses'],
+      resources: ['*'],
+      conditions: { StringEquals: { 'autoscaling:ResourceTag/HealthEnv': environment.stage } },
+    }));
+    // Unmutes the alarms the schedule muted while the hosts were stopped
+    project.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['cloudwatch:EnableAlarmActions'],
+      resources: [this.formatArn({ service: 'cloudwatch', resource: 'alarm', resourceName: '*', arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME })],
+      conditions: { StringEquals: { 'aws:ResourceTag/HealthEnv': environment.stage } },
+    }));
+    // Command status and instance and alarm lookups have no resource-level permissions
+    project.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['ssm:GetCommandInvocation', 'ssm:ListCommands', 'ssm:ListCommandInvocations', 'ssm:DescribeInstanceInformation', 'ec2:DescribeInstances', 'autoscaling:DescribeAutoScalingGroups', 'tag:GetResources'],
+      resources: ['*'],
+    }));
+  }
 
-    // Integration Test Stage
-    const integrationTestProject = this.createIntegrationTestRun();
-    integrationTestProject.addToRolePolicy(new iam.PolicyStatement({
-      actions: ['ssm:SendCommand', 'ssm:GetCommandInvocation', 'ssm:ListCommands', 'ssm:ListCommandInvocations'],
+  // Rolls the stage's own services onto new task definition revisions, reading the release's image digests
+  private addEcsDeployAccess(project: codebuild.PipelineProject, environment: EnvironmentConfig, deployBucketName: string) {
+    const { stage } = environment;
+    project.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['s3:GetObject'],
+      resources: [`arn:${this.partition}:s3:::${deployBucketName}/releases/*`],
+    }));
+    project.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['ecs:DescribeServices', 'ecs:UpdateService'],
+      resources: imageServices(SERVICES).map((service) =>
+        this.formatArn({ service: 'ecs', resource: 'service', resourceName: `${ecsClusterName(stage)}/${ecsServiceName(stage, service)}` })),
+    }));
+    project.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['ssm:PutParameter'],
+      resources: imageServices(SERVICES).map((service) =>
+        this.formatArn({ service: 'ssm', resource: 'parameter', resourceName: ecsImageParameterName(stage, service).slice(1) })),
+    }));
+    // Task definition calls have no resource-level permissions
+    project.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['ecs:DescribeTaskDefinition', 'ecs:RegisterTaskDefinition'],
       resources: ['*'],
     }));
-    pipeline.addStage({ stageName: 'IntegrationTests' }).addAction(new cpactions.CodeBuildAction({
-      actionName: 'Run_Integration_Tests',
-      project: integrationTestProject,
-      input: repoArtifacts['HealthIntegrationTests']
+    // New revisions keep the task and execution roles the environment stack created
+    project.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['iam:PassRole'],
+      resources: [this.formatArn({ service: 'iam', region: '', resource: 'role', resourceName: `${stackPrefix(stage)}Infra-*` })],
+      conditions: { StringEquals: { 'iam:PassedToService': 'ecs-tasks.amazonaws.com' } },
     }));
   }
 
-  private createPackagerProject(deployBucketName: String): codebuild.PipelineProject {
-    return new codebuild.PipelineProject(this, 'WorkspacePackager', {
-      projectName: 'WorkspacePackager',
+  private createServiceBuildProject(service: ServiceDefinition, deployBucket: s3.IBucket, ecrRegistry: string, repository?: ecr.IRepository): codebuild.PipelineProject {
+    const gradle = service.build?.tool === 'gradle';
+    const runtimeVersions = gradle
+      ? { java: 'corretto17' }
+      : service.build?.tool === 'npm' ? { nodejs: '18' } : undefined;
+
+    return new codebuild.PipelineProject(this, `${service.name}Build`, {
+      projectName: `${service.name}Build`,
       environment: {
         buildImage: codebuild.LinuxBuildImage.STANDARD_7_0,
         privileged: true,
       },
+      // Gradle caches survive across build hosts in S3; image-only builds reuse local Docker layers
+      cache: gradle
+        ? codebuild.Cache.bucket(deployBucket, { prefix: `build-cache/${service.name}` })
+        : service.image ? codebuild.Cache.local(codebuild.LocalCacheMode.DOCKER_LAYER) : codebuild.Cache.none(),
       environmentVariables: {
-        GITHUB_TOKEN: {
-          type: codebuild.BuildEnvironmentVariableType.SECRETS_MANAGER,
-          value: 'GITHUB_TOKEN',
-        },
-        DEPLOY_BUCKET_NAME: { value: deployBucketName },
+        DEPLOY_BUCKET_NAME: { value: deployBucket.bucketName },
+        ECR_REGISTRY: { value: ecrRegistry },
       },
       buildSpec: codebuild.BuildSpec.fromObject({
         version: '0.2',
-
         phases: {
-          install: {
-            commands: [
-              'echo Installing JDK17 + git...',
-              'yum update -y || true',
-              'yum install -y java-17-amazon-corretto-devel git tar jq || true'
-            ],
+          ...(runtimeVersions ? { install: { 'runtime-versions': runtimeVersions } } : {}),
+          build: {
+            commands: serviceBuildCommands(service, SERVICES, { repositoryUri: repository?.repositoryUri }),
           },
+        },
+        ...(gradle ? { cache: { paths: ['/root/.gradle/caches/**/*', '/root/.gradle/wrapper/**/*'] } } : {}),
+      }),
+    });
+  }
 
+  private createAssembleProject(deployBucketName: string): codebuild.PipelineProject {
+    return new codebuild.PipelineProject(this, 'WorkspacePackager', {
+      projectName: 'WorkspacePackager',
+      environment: {
+        buildImage: codebuild.LinuxBuildImage.STANDARD_7_0,
+      },
+      environmentVariables: {
+        DEPLOY_BUCKET_NAME: { value: deployBucketName },
+      },
+      buildSpec: codebuild.BuildSpec.fromObject({
+        version: '0.2',
+        phases: {
           build: {
-            commands: [
-              'set -e',
-              'echo "==== CLEANING WORKSPACE ===="',
-              'rm -rf /tmp/build-artifacts || true',
-              'mkdir -p /tmp/build-artifacts/workspace',
-              'cd /tmp/build-artifacts/workspace',
-              'pwd',
-              'ls',
-              'echo "==== CLONING REPOSITORIES ===="',
-              // Workspace root folder
-              'git clone --depth 1 https://$GITHUB_TOKEN@github.com/S-Ungurean/HealthWorkspace.git .',
-              'ls',
-              // Submodules inside workspace/
-              'git clone --depth 1 https://$GITHUB_TOKEN@github.com/S-Ungurean/HealthCDK.git HealthCDK',
-              'cd HealthCDK',
-              'aws s3 cp resources/frontend.conf s3://$DEPLOY_BUCKET_NAME/frontend.conf',
-              'aws s3 cp resources/ratelimits.conf s3://$DEPLOY_BUCKET_NAME/ratelimits.conf',
-              'cd ..',
-              'git clone --depth 1 https://$GITHUB_TOKEN@github.com/S-Ungurean/HealthDAO.git HealthDAO',
-              'pwd',
-              'ls',
-              'git clone --depth 1 https://$GITHUB_TOKEN@github.com/S-Ungurean/HealthSAO.git HealthSAO',
-              'git clone --depth 1 https://$GITHUB_TOKEN@github.com/S-Ungurean/HealthBEService.git HealthBEService',
-              'git clone --depth 1 https://$GITHUB_TOKEN@github.com/S-Ungurean/HealthFEService.git HealthFEService',
-              'git clone --depth 1 https://$GITHUB_TOKEN@github.com/S-Ungurean/HealthInferenceService.git HealthInferenceService',
-              'git clone --depth 1 https://$GITHUB_TOKEN@github.com/S-Ungurean/HealthIntegrationTests.git HealthIntegrationTests',
-              'pwd',
-              'ls',
-              'echo "==== BUILDING DAO ===="',
-              '(cd HealthDAO && chmod +x gradlew && ./gradlew clean build -x test)',
-
-              'echo "==== BUILDING SAO ===="',
-              '(cd HealthSAO && chmod +x gradlew && ./gradlew clean build -x test)',
-
-              'echo "==== BUILDING BACKEND ===="',
-              '(cd HealthBEService && chmod +x gradlew && ./gradlew clean build -x test)',
-
-              'echo "==== PACKAGING WORKSPACE ===="',
-              'cd /tmp/build-artifacts',
-              'tar -czf docker_workspace.tar.gz workspace',
-              'aws s3 cp docker_workspace.tar.gz s3://$DEPLOY_BUCKET_NAME/docker_workspace.tar.gz',
-              'echo "Packaging complete!"'
-            ],
+            commands: assembleCommands(SERVICES),
           },
         },
-        artifacts: {
-          files: [],
-        },
       }),
     });
   }
 
-  private createDockerComposeDeployProject(deployBucketName: string): codebuild.PipelineProject {
-    return new codebuild.PipelineProject(this, 'DockerComposeDeploy', {
-      projectName: 'DockerComposeDeploy',
+  private deployCommands(deployEnvironment: EnvironmentConfig): string[] {
+    return deployCommands({
+      domainName: deployEnvironment.domainName,
+      retainedReleases: deployEnvironment.retainedReleases,
+      keptReleasePrefix: keptReleasePrefix(deployEnvironment.stage),
+      // Read on the instance with its own role, which the environment stack grants on these secrets
+      secrets: stageReleaseSecrets(deployEnvironment.stage, deployEnvironment.region),
+      nginxCommands: bucketNginxCommands(deployEnvironment.stage),
+      releaseArgs: '$RELEASE_ID $DEPLOY_BUCKET_NAME $ECR_REGISTRY',
+    });
+  }
+
+  private createDockerComposeDeployProject(deployBucketName: string, ecrRegistry: string, deployEnvironment: EnvironmentConfig): codebuild.PipelineProject {
+    const id = `DockerComposeDeploy${stageTitle(deployEnvironment.stage)}`;
+    return new codebuild.PipelineProject(this, id, {
+      projectName: id,
       environment: {
         buildImage: codebuild.LinuxBuildImage.AMAZON_LINUX_2_CORETTO_8, // Amazon Linux 2 with yum
         privileged: true,
       },
       environmentVariables: {
         DEPLOY_BUCKET_NAME: { value: deployBucketName },
+        ECR_REGISTRY: { value: ecrRegistry },
       },
       buildSpec: codebuild.BuildSpec.fromObject({
         version: '0.2',
@@ -199,45 +337,20 @@ export class PipelineStack extends Stack {
             'echo "Preparing SSM command JSON file..."',
             // Use cat <<EOF for clean multi-line JSON
             `cat > commands.json <<EOF
-{
-  "commands": [
-    "sudo systemctl stop nginx",
-    "sudo systemctl start nginx",
-    "sudo nginx -t",
-    "echo test | sudo tee /var/www/certbot/.well-known/acme-challenge/testfile",
-    "curl http://dev.aegiscan.app/.well-known/acme-challenge/testfile",
-    "bash -c 'set -e; sudo certbot certonly --webroot -w /var/www/certbot -d dev.aegiscan.app --agree-tos --register-unsafely-without-email --non-interactive'",
-    "bash -c 'set -e; aws s3 cp s3://$DEPLOY_BUCKET_NAME/ratelimits.conf /etc/nginx/conf.d/ratelimits.conf'",
-    "bash -c 'set -e; aws s3 cp s3://$DEPLOY_BUCKET_NAME/frontend.conf /etc/nginx/conf.d/frontend.conf'",
-    "bash -c 'set -e; sudo nginx -t'",
-    "sudo systemctl stop nginx",
-    "sudo systemctl start nginx",
-
-    "(crontab -l 2>/dev/null; echo \\"0 0,12 * * * /usr/bin/certbot renew --quiet --post-hook 'systemctl reload nginx'\\" ) | crontab -",
-
-    "sudo curl -SL https://github.com/docker/compose/releases/download/v2.20.2/docker-compose-linux-x86_64 -o /usr/local/bin/docker-compose",
-    "sudo chmod +x /usr/local/bin/docker-compose",
-    "docker-compose --version",
-    "aws s3 cp s3://$DEPLOY_BUCKET_NAME/docker_workspace.tar.gz /home/ec2-user/docker_workspace.tar.gz",
-    "cd /home/ec2-user && tar -xzf docker_workspace.tar.gz",
-    "cd /home/ec2-user/workspace",
-    "docker-compose down",
-    "docker system prune -f",
-    "docker-compose up -d --build",
-    "echo 'Waiting 3 minutes for containers to start...'",
-    "sleep 180",
-    "docker ps --format '{{.Names}} {{.Status}}' | grep -q healthai || exit 1",
-    "docker ps --format '{{.Names}} {{.Status}}' | grep -q healthfe || exit 1",
-    "docker ps --format '{{.Names}} {{.Status}}' | grep -q healthpy || exit 1",
-    "docker ps --format '{{.Names}} {{.Status}}' | grep -q cassandra || exit 1"
-  ]
-}
+${JSON.stringify({ commands: this.deployCommands(deployEnvironment) }, null, 2)}
 EOF`,
+            // Hosts stopped by their schedule are started first so the command reaches them
+            `cat > start-stopped-hosts.sh <<'EOF'
+${renderStartStoppedHostsScript(HOST_START_TIMEOUT_SECONDS)}EOF`,
+            `bash start-stopped-hosts.sh ${deployEnvironment.stage}`,
             'echo "Sending SSM command to deploy workspace..."',
-            'COMMAND_ID=$(aws ssm send-command --targets "Key=tag:HealthEnv,Values=dev" --document-name "AWS-RunShellScript" --comment "Deploy full workspace" --parameters file://commands.json --timeout-seconds 1800 --query "Command.CommandId" --output text)',
-            'echo "SSM command sent, polling for status..."',
+            `COMMAND_ID=$(aws ssm send-command --targets "Key=tag:HealthEnv,Values=${deployEnvironment.stage}" --document-name "AWS-RunShellScript" --comment "Deploy full workspace" --parameters file://commands.json --timeout-seconds ${DEPLOY_COMMAND_TIMEOUT_SECONDS} --cloud-watch-output-config "CloudWatchOutputEnabled=true,CloudWatchLogGroupName=${DEPLOY_OUTPUT_LOG_GROUP}" --query "Command.CommandId" --output text)`,
+            // The failure digest finds the command by this line
+            'echo "SSM command $COMMAND_ID sent, polling for status..."',
             // Poll for SSM command completion
-            'for i in $(seq 1 20); do STATUS=$(aws ssm list-command-invocations --command-id "$COMMAND_ID" --details --query "CommandInvocations[0].Status" --output text); echo "Current SSM status: $STATUS"; if [ "$STATUS" = "Success" ]; then echo "✅ Deployment completed"; exit 0; fi; if [ "$STATUS" = "Failed" ]; then echo "❌ Deployment failed"; exit 1; fi; sleep 30; done; echo "⚠️ Deployment timed out waiting for SSM command to finish"; exit 1'
+            `cat > wait-ssm-command.sh <<'EOF'
+${renderSsmWaitScript(DEPLOY_COMMAND_TIMEOUT_SECONDS + 300)}EOF`,
+            'bash wait-ssm-command.sh "$COMMAND_ID"'
 
           ],
         },
@@ -247,38 +360,77 @@ EOF`,
     });
   }
 
-  private createIntegrationTestRun() {
-    return new codebuild.PipelineProject(this, 'DevIntegrationTestRun', {
-      projectName: 'DevIntegrationTestRun',
+  private createEcsDeployProject(deployBucketName: string, deployEnvironment: EnvironmentConfig): codebuild.PipelineProject {
+    const id = `EcsDeploy${stageTitle(deployEnvironment.stage)}`;
+    return new codebuild.PipelineProject(this, id, {
+      projectName: id,
       environment: {
-        buildImage: codebuild.LinuxBuildImage.AMAZON_LINUX_2_CORETTO_8, // Amazon Linux 2 with yum
-        privileged: true,
+        buildImage: codebuild.LinuxBuildImage.STANDARD_7_0,
       },
+      environmentVariables: {
+        DEPLOY_BUCKET_NAME: { value: deployBucketName },
+      },
+      // Circuit breaker rollbacks fail the action and stop the promotion
+      timeout: cdk.Duration.minutes(30),
       buildSpec: codebuild.BuildSpec.fromObject({
         version: '0.2',
         phases: {
-          install: {
+          build: {
             commands: [
-              'echo Installing JDK21 + git...',
-              'yum update -y || true',
-              'amazon-linux-extras enable corretto21 || true',
-              'yum install -y java-21-amazon-corretto-devel git tar jq || true'
+              `cat > ecs-deploy.sh <<'EOF'
+${renderEcsDeployScript(deployEnvironment.stage, SERVICES)}EOF`,
+              'bash ecs-deploy.sh "$RELEASE_ID" "$DEPLOY_BUCKET_NAME"',
             ],
           },
+        },
+      }),
+    });
+  }
+
+  private createIntegrationTestRun(environment: EnvironmentConfig): codebuild.PipelineProject {
+    const { integrationTests } = environment;
+    if (!integrationTests) {
+      throw new Error(`Environment '${environment.stage}' has no integrationTests config`);
+    }
+    const title = stageTitle(environment.stage);
+
+    const reportGroup = new codebuild.ReportGroup(this, `${title}IntegrationTestReports`, {
+      reportGroupName: `${title}IntegrationTests`,
+      type: codebuild.ReportGroupType.TEST,
+    });
+
+    const project = new codebuild.PipelineProject(this, `${title}IntegrationTestRun`, {
+      projectName: `${title}IntegrationTestRun`,
+      environment: {
+        buildImage: codebuild.LinuxBuildImage.STANDARD_7_0,
+      },
+      environmentVariables: {
+        HEALTH_BASE_URL: { value: integrationTests.baseUrl },
+      },
+      // Runs from the HealthIntegrationTests source artifact; a failing suite fails the action and stops the promotion
+      buildSpec: codebuild.BuildSpec.fromObject({
+        version: '0.2',
+        phases: {
+          install: { 'runtime-versions': { java: 'corretto21' } },
           build: {
             commands: [
-            'set -e',
-            //'echo "Preparing SSM command JSON file..."',
-            // Use cat <<EOF for clean multi-line JSON
-            'git clone --depth 1 https://$GITHUB_TOKEN@github.com/S-Ungurean/HealthIntegrationTests.git HealthIntegrationTests',
-            'cd HealthIntegrationTests && chmod +x gradlew && ./gradlew test --tests org.dev.HealthDevBEIntegrationTestSuite'
+              `cat > run-integration-tests.sh <<'EOF'
+${renderIntegrationTestScript(integrationTests.suites)}EOF`,
+              'bash run-integration-tests.sh',
             ],
-          } 
+          },
         },
-        artifacts: {
-          files: [],
+        // Published whether or not the build passed
+        reports: {
+          [reportGroup.reportGroupArn]: {
+            files: ['*.xml'],
+            'base-directory': JUNIT_RESULTS_DIR,
+            'file-format': 'JUNITXML',
+          },
         },
       }),
     });
+    reportGroup.grantWrite(project);
+    return project;
   }
-}
\ No newline at end of file
+}
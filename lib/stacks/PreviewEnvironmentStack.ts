@@ -0,0 +1,131 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as ecr from 'aws-cdk-lib/aws-ecr';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as ssm from 'aws-cdk-lib/aws-ssm';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import { APP_SECRETS, appSecretName } from '../config/secrets';
+import { PreviewConfig, previewDeployDocumentName, previewDomain, previewEnvName } from '../config/previews';
+import { addStandardTags } from '../config/tags';
+import { DATA_DEVICE, hostSetupCommands } from '../host/userData';
+import { buildSite } from '../nginx/routes';
+import { deployCommands, inlineNginxCommands, stageReleaseSecrets } from '../pipeline/deployCommands';
+import { PREVIEW_DEPLOY_TIMEOUT_SECONDS, previewHostReadyCommands } from '../preview/render';
+import { SiteDns } from '../constructs/SiteDns';
+
+export interface PreviewEnvironmentStackProps extends cdk.StackProps {
+  previewId: string;
+  config: PreviewConfig;
+  // Preview VPC from the preview stack, shared by every preview host
+  vpc: ec2.IVpc;
+  // Service images the host pulls at deploy time
+  imageRepositories: ecr.IRepository[];
+  // Releases the host downloads at deploy time
+  deployBucket: s3.IBucket;
+}
+
+/**
+ * Short-lived host for one pull request: the environment stack without
+ * its own VPC, Elastic IP, monitoring, health check or backups. Everything carries
+ * the preview's own HealthEnv tag, so stage deploys never reach it. Releases
+ * are deployed through the preview's own SSM document, which has the nginx
+ * site for the preview domain built in. Reads the base stage's secrets.
+ */
+export class PreviewEnvironmentStack extends cdk.Stack {
+  public readonly instance: ec2.Instance;
+  public readonly deployDocument: ssm.CfnDocument;
+
+  constructor(scope: Construct, id: string, props: PreviewEnvironmentStackProps) {
+    super(scope, id, props);
+
+    const { previewId, config, deployBucket, vpc } = props;
+    const envName = previewEnvName(previewId);
+    const domainName = previewDomain(previewId, config);
+
+    const sg = new ec2.SecurityGroup(this, 'InstanceSG', {
+      vpc,
+      allowAllOutbound: true,
+      description: `Preview host for ${previewId}`,
+    });
+    config.allowedCidrs.forEach((cidr) => {
+      sg.addIngressRule(ec2.Peer.ipv4(cidr), ec2.Port.tcp(80), 'Allow HTTP traffic');
+      sg.addIngressRule(ec2.Peer.ipv4(cidr), ec2.Port.tcp(443), 'Allow HTTPS traffic');
+    });
+
+    const role = new iam.Role(this, 'InstanceRole', {
+      assumedBy: new iam.ServicePrincipal('ec2.amazonaws.com'),
+    });
+    role.addManagedPolicy(iam.ManagedPolicy.fromAwsManagedPolicyName('AmazonSSMManagedInstanceCore'));
+    deployBucket.grantRead(role);
+    props.imageRepositories.forEach((repository) => repository.grantPull(role));
+    APP_SECRETS.forEach((secret) => {
+      secretsmanager.Secret.fromSecretNameV2(this, `${secret.envVar}Secret`, appSecretName(config.baseStage, secret)).grantRead(role);
+    });
+
+    this.instance = new ec2.Instance(this, 'Instance', {
+      vpc,
+      vpcSubnets: { subnetType: ec2.SubnetType.PUBLIC },
+      associatePublicIpAddress: true,
+      instanceType: ec2.InstanceType.of(config.instanceClass, config.instanceSize),
+      machineImage: ec2.MachineImage.latestAmazonLinux2(),
+      securityGroup: sg,
+      role,
+      blockDevices: [
+        {
+          deviceName: '/dev/xvda',
+          volume: ec2.BlockDeviceVolume.ebs(config.rootVolumeSizeGiB, { volumeType: ec2.EbsDeviceVolumeType.GP3, encrypted: true }),
+        },
+        {
+          deviceName: DATA_DEVICE,
+          volume: ec2.BlockDeviceVolume.ebs(config.dataVolumeSizeGiB, { volumeType: ec2.EbsDeviceVolumeType.GP3, encrypted: true }),
+        },
+      ],
+    });
+    this.instance.userData.addCommands(...hostSetupCommands(domainName));
+
+    // The preview build and the certificate association target the host by this tag
+    addStandardTags(this, envName);
+
+    new SiteDns(this, 'Dns', {
+      envName,
+      domainName,
+      hostedZoneName: config.hostedZoneName,
+      // Previews are never stopped, so the public IP lasts as long as the host; an Elastic IP each
+      // would run into the regional quota
+      ipAddress: this.instance.instancePublicIp,
+    });
+
+    const ecrRegistry = `${this.account}.dkr.ecr.${this.region}.amazonaws.com`;
+    this.deployDocument = new ssm.CfnDocument(this, 'DeployDocument', {
+      name: previewDeployDocumentName(previewId),
+      documentType: 'Command',
+      updateMethod: 'NewVersion',
+      content: {
+        schemaVersion: '2.2',
+        description: `Deploys a release onto preview ${previewId}`,
+        parameters: {
+          releaseId: { type: 'String', description: 'Release to deploy', allowedPattern: '^[A-Za-z0-9-]+$' },
+        },
+        mainSteps: [{
+          action: 'aws:runShellScript',
+          name: 'Deploy',
+          inputs: {
+            timeoutSeconds: `${PREVIEW_DEPLOY_TIMEOUT_SECONDS}`,
+            runCommand: [
+              ...previewHostReadyCommands(domainName),
+              ...deployCommands({
+                domainName,
+                retainedReleases: config.retainedReleases,
+                secrets: stageReleaseSecrets(config.baseStage, config.region),
+                nginxCommands: inlineNginxCommands(buildSite(domainName)),
+                releaseArgs: `{{ releaseId }} ${deployBucket.bucketName} ${ecrRegistry}`,
+              }),
+            ],
+          },
+        }],
+      },
+    });
+  }
+}
@@ -0,0 +1,302 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as codebuild from 'aws-cdk-lib/aws-codebuild';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as ecr from 'aws-cdk-lib/aws-ecr';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import { EnvironmentConfig } from '../config/environments';
+import { PREVIEW_IMAGE_TAG_PREFIX, PREVIEW_STACK_PREFIX, PreviewConfig, previewEnvName } from '../config/previews';
+import { GITHUB_OWNER, SERVICES, ServiceDefinition, getService, imageServices } from '../config/services';
+import { ENV_TAG } from '../config/tags';
+import { renderSsmWaitScript } from '../healthgate/render';
+import { renderIntegrationTestScript } from '../integration/render';
+import { releaseImageKey, releasePartKey } from '../release/render';
+import {
+  INTEGRATION_TEST_SCRIPT_PATH,
+  PREVIEW_DEPLOY_TIMEOUT_SECONDS,
+  SSM_WAIT_SCRIPT_PATH,
+  renderPreviewBuildScript,
+  renderPreviewDeployScript,
+  renderPreviewReaperScript,
+} from '../preview/render';
+
+export interface PreviewStackProps extends cdk.StackProps {
+  config: PreviewConfig;
+  // Stage the previews branch off; its integration test suites run against every preview
+  baseEnvironment: EnvironmentConfig;
+  deployBucket: s3.IBucket;
+  // Release ECR repositories keyed by service name; preview builds seed their layer cache from them
+  imageRepositories: Record<string, ecr.IRepository>;
+  // ECR repositories preview images are pushed to, keyed by service name
+  previewRepositories: Record<string, ecr.IRepository>;
+  // CodeStar connection the pipeline already reads GitHub through
+  githubConnectionArn: string;
+}
+
+/**
+ * Pull request previews for every service with an image. A pull request from
+ * a trusted author starts a webhook build of its image, which only holds
+ * push access to the service's preview repository and preview release parts.
+ * When it finishes, a deploy build running this app's own branch deploys a
+ * `HealthPreview-<id>` stack for the open pull request, or deletes it once
+ * the pull request is closed; an hourly build deletes previews past their
+ * TTL. Previews are deployed with the CDK bootstrap roles and can only send
+ * commands to preview hosts.
+ */
+export class PreviewStack extends cdk.Stack {
+  public readonly statusToken: secretsmanager.Secret;
+  // Shared by every preview host; a VPC per preview would run into the regional VPC quota
+  public readonly vpc: ec2.Vpc;
+
+  constructor(scope: Construct, id: string, props: PreviewStackProps) {
+    super(scope, id, props);
+
+    const { config, baseEnvironment, deployBucket, imageRepositories, previewRepositories } = props;
+    if (!baseEnvironment.integrationTests) {
+      throw new Error(`Environment '${baseEnvironment.stage}' has no integrationTests config to run against previews`);
+    }
+
+    // Account-wide, replacing any GitHub credential CodeBuild already had: it reads GitHub and
+    // manages webhooks through the connection
+    const sourceCredential = new codebuild.CfnSourceCredential(this, 'GitHubSourceCredential', {
+      authType: 'CODECONNECTIONS',
+      serverType: 'GITHUB',
+      token: props.githubConnectionArn,
+    });
+
+    this.statusToken = new secretsmanager.Secret(this, 'GitHubStatusToken', {
+      secretName: 'health/tooling/github-status-token',
+      description: 'GitHub token with commit status write access; previews post their URL with it',
+    });
+
+    if (config.trustedActorIds.length === 0) {
+      cdk.Annotations.of(this).addWarningV2('health:previews-no-trusted-actors',
+        'No trustedActorIds in the preview config: preview builds only run when started by hand');
+    }
+
+    this.vpc = new ec2.Vpc(this, 'PreviewVpc', {
+      maxAzs: 1,
+      natGateways: 0,
+      subnetConfiguration: [{ name: 'Public', subnetType: ec2.SubnetType.PUBLIC, cidrMask: 24 }],
+    });
+
+    const ecrRegistry = `${this.account}.dkr.ecr.${this.region}.amazonaws.com`;
+    const cfnExecRoleArn = this.bootstrapRoleArn('cfn-exec-role');
+
+    imageServices(SERVICES).forEach((service) => {
+      const repository = previewRepositories[service.name];
+
+      // Runs the pull request's code: it may only push preview images and preview release parts
+      const build = new codebuild.Project(this, `${service.name}PreviewBuild`, {
+        projectName: `${service.name}PreviewBuild`,
+        source: codebuild.Source.gitHub({
+          owner: GITHUB_OWNER,
+          repo: service.repo!,
+          ...(config.trustedActorIds.length > 0
+            ? {
+              webhookFilters: [
+                codebuild.FilterGroup.inEventOf(
+                  codebuild.EventAction.PULL_REQUEST_CREATED,
+                  codebuild.EventAction.PULL_REQUEST_UPDATED,
+                  codebuild.EventAction.PULL_REQUEST_REOPENED,
+                  codebuild.EventAction.PULL_REQUEST_CLOSED,
+                  codebuild.EventAction.PULL_REQUEST_MERGED,
+                ).andBaseBranchIs(service.branch!).andActorAccountIs(`^(${config.trustedActorIds.join('|')})$`),
+              ],
+            }
+            : { webhook: false }),
+          // The deploy build posts the status carrying the preview URL
+          reportBuildStatus: false,
+        }),
+        secondarySources: (service.dependsOn ?? []).map((name) => this.gitHubSource(getService(name))),
+        environment: {
+          buildImage: codebuild.LinuxBuildImage.STANDARD_7_0,
+          privileged: true,
+        },
+        timeout: cdk.Duration.minutes(60),
+        environmentVariables: {
+          DEPLOY_BUCKET_NAME: { value: deployBucket.bucketName },
+          ECR_REGISTRY: { value: ecrRegistry },
+          IMAGE_REPOSITORY_URI: { value: repository.repositoryUri },
+          CACHE_REPOSITORY_URI: { value: imageRepositories[service.name].repositoryUri },
+        },
+        buildSpec: codebuild.BuildSpec.fromObject({
+          version: '0.2',
+          phases: {
+            install: { 'runtime-versions': { java: 'corretto17', nodejs: '20' } },
+            build: {
+              commands: [
+                `cat > preview-build.sh <<'EOF'
+${renderPreviewBuildScript({ service, services: SERVICES, config })}EOF`,
+                'bash preview-build.sh',
+              ],
+            },
+          },
+        }),
+      });
+      build.node.addDependency(sourceCredential);
+      repository.grantPullPush(build);
+      imageRepositories[service.name].grantPull(build);
+      const previewRelease = `${PREVIEW_IMAGE_TAG_PREFIX}*`;
+      deployBucket.grantPut(build, releasePartKey(previewRelease, service.name));
+      deployBucket.grantPut(build, releaseImageKey(previewRelease, service.image!.composeService));
+
+      // Runs this app from its own branch once the image build finishes, with the deploy permissions
+      const deploy = new codebuild.Project(this, `${service.name}PreviewDeploy`, {
+        projectName: `${service.name}PreviewDeploy`,
+        source: this.gitHubSource(getService('HealthCDK'), false),
+        secondarySources: [this.gitHubSource(getService('HealthIntegrationTests'))],
+        environment: {
+          buildImage: codebuild.LinuxBuildImage.STANDARD_7_0,
+        },
+        timeout: cdk.Duration.minutes(120),
+        environmentVariables: {
+          DEPLOY_BUCKET_NAME: { value: deployBucket.bucketName },
+          IMAGE_REPOSITORY_URI: { value: repository.repositoryUri },
+          CFN_EXEC_ROLE_ARN: { value: cfnExecRoleArn },
+          GITHUB_STATUS_TOKEN: { type: codebuild.BuildEnvironmentVariableType.SECRETS_MANAGER, value: this.statusToken.secretArn },
+        },
+        buildSpec: codebuild.BuildSpec.fromObject({
+          version: '0.2',
+          phases: {
+            install: { 'runtime-versions': { java: 'corretto17', nodejs: '20' } },
+            build: {
+              commands: [
+                `cat > ${SSM_WAIT_SCRIPT_PATH} <<'EOF'
+${renderSsmWaitScript(PREVIEW_DEPLOY_TIMEOUT_SECONDS + 300)}EOF`,
+                `cat > ${INTEGRATION_TEST_SCRIPT_PATH} <<'EOF'
+${renderIntegrationTestScript(baseEnvironment.integrationTests!.suites)}EOF`,
+                `cat > /tmp/preview-deploy.sh <<'EOF'
+${renderPreviewDeployScript({ service, services: SERVICES, config })}EOF`,
+                'bash /tmp/preview-deploy.sh',
+              ],
+            },
+          },
+        }),
+      });
+      deploy.node.addDependency(sourceCredential);
+      deployBucket.grantRead(deploy);
+      deployBucket.grantPut(deploy);
+      deploy.addToRolePolicy(new iam.PolicyStatement({
+        actions: ['ecr:DescribeImages'],
+        resources: [repository.repositoryArn],
+      }));
+      deploy.addToRolePolicy(new iam.PolicyStatement({
+        actions: ['codebuild:BatchGetBuilds'],
+        resources: [build.projectArn],
+      }));
+      this.addCdkDeployAccess(deploy);
+      this.addPreviewDeletionAccess(deploy, cfnExecRoleArn);
+      this.addPreviewSendCommandAccess(deploy);
+
+      build.onStateChange(`${service.name}PreviewBuilt`, {
+        description: `Deploys the ${service.name} preview once its image build finishes`,
+        eventPattern: { detail: { 'build-status': ['SUCCEEDED', 'FAILED'] } },
+        target: new targets.CodeBuildProject(deploy, {
+          event: events.RuleTargetInput.fromObject({
+            environmentVariablesOverride: [
+              { name: 'PREVIEW_BUILD_ARN', value: events.EventField.fromPath('$.detail.build-id'), type: 'PLAINTEXT' },
+            ],
+          }),
+        }),
+      });
+    });
+
+    const reaper = new codebuild.Project(this, 'PreviewReaper', {
+      projectName: 'PreviewReaper',
+      environment: {
+        buildImage: codebuild.LinuxBuildImage.STANDARD_7_0,
+      },
+      environmentVariables: {
+        CFN_EXEC_ROLE_ARN: { value: cfnExecRoleArn },
+      },
+      buildSpec: codebuild.BuildSpec.fromObject({
+        version: '0.2',
+        phases: {
+          build: {
+            commands: [
+              `cat > reap-previews.sh <<'EOF'
+${renderPreviewReaperScript()}EOF`,
+              'bash reap-previews.sh',
+            ],
+          },
+        },
+      }),
+    });
+    this.addPreviewDeletionAccess(reaper, cfnExecRoleArn);
+    // Listing stacks has no resource-level permissions
+    reaper.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['cloudformation:DescribeStacks'],
+      resources: ['*'],
+    }));
+
+    new events.Rule(this, 'PreviewReaperSchedule', {
+      description: `Deletes pull request previews not deployed within ${config.ttlHours} hours`,
+      schedule: events.Schedule.rate(cdk.Duration.hours(1)),
+      targets: [new targets.CodeBuildProject(reaper)],
+    });
+  }
+
+  // A repo's configured branch, read through the source credential
+  private gitHubSource(service: ServiceDefinition, secondary: boolean = true): codebuild.ISource {
+    return codebuild.Source.gitHub({
+      identifier: secondary ? service.name : undefined,
+      owner: GITHUB_OWNER,
+      repo: service.repo!,
+      branchOrRef: service.branch,
+      reportBuildStatus: false,
+    });
+  }
+
+  private bootstrapRoleArn(role: string): string {
+    const qualifier = cdk.DefaultStackSynthesizer.DEFAULT_QUALIFIER;
+    return this.formatArn({
+      service: 'iam',
+      region: '',
+      resource: 'role',
+      resourceName: `cdk-${qualifier}-${role}-${this.account}-${this.region}`,
+    });
+  }
+
+  // `cdk deploy` runs with the bootstrap roles, which hold the actual deploy permissions
+  private addCdkDeployAccess(project: codebuild.Project) {
+    project.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['sts:AssumeRole'],
+      resources: ['deploy-role', 'file-publishing-role', 'lookup-role'].map((role) => this.bootstrapRoleArn(role)),
+    }));
+  }
+
+  private addPreviewDeletionAccess(project: codebuild.Project, cfnExecRoleArn: string) {
+    project.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['cloudformation:DeleteStack', 'cloudformation:DescribeStacks'],
+      resources: [this.formatArn({ service: 'cloudformation', resource: 'stack', resourceName: `${PREVIEW_STACK_PREFIX}*/*` })],
+    }));
+    project.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['iam:PassRole'],
+      resources: [cfnExecRoleArn],
+      conditions: { StringEquals: { 'iam:PassedToService': 'cloudformation.amazonaws.com' } },
+    }));
+  }
+
+  // Only preview deploy documents, and only on preview hosts
+  private addPreviewSendCommandAccess(project: codebuild.Project) {
+    project.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['ssm:SendCommand'],
+      resources: [this.formatArn({ service: 'ssm', resource: 'document', resourceName: `Health-${previewEnvName('*')}-Deploy` })],
+    }));
+    project.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['ssm:SendCommand'],
+      resources: [this.formatArn({ service: 'ec2', resource: 'instance', resourceName: '*' })],
+      conditions: { StringLike: { [`ssm:resourceTag/${ENV_TAG}`]: previewEnvName('*') } },
+    }));
+    // Command status and instance registration calls have no resource-level permissions
+    project.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['ssm:GetCommandInvocation', 'ssm:ListCommands', 'ssm:ListCommandInvocations', 'ssm:DescribeInstanceInformation'],
+      resources: ['*'],
+    }));
+  }
+}
@@ -12,8 +12,23 @@ export class S3Stack extends cdk.Stack {
       bucketName: `health-workspace-deploy-${this.account}-${this.region}`, // globally unique
       removalPolicy: cdk.RemovalPolicy.DESTROY,
       autoDeleteObjects: true,
-      versioned: false,
+      versioned: true,
       publicReadAccess: false,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      lifecycleRules: [
+        // Hosts keep their last good releases under kept-releases/, and the latest release id lives under pointers/
+        {
+          id: 'ExpireOldReleases',
+          prefix: 'releases/',
+          expiration: cdk.Duration.days(30),
+        },
+        {
+          id: 'ExpireOverwrittenObjects',
+          noncurrentVersionExpiration: cdk.Duration.days(7),
+          abortIncompleteMultipartUploadAfter: cdk.Duration.days(1),
+        },
+      ],
     });
   }
 }
\ No newline at end of file
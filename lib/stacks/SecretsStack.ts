@@ -0,0 +1,54 @@
+import * as cdk from 'aws-cdk-lib';
+import * as path from 'path';
+import { Construct } from 'constructs';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import { StageName } from '../config/environments';
+import { AppSecret, SECRET_LENGTH, appSecretName } from '../config/secrets';
+import { addStandardTags } from '../config/tags';
+
+export interface SecretsStackProps extends cdk.StackProps {
+  stage: StageName;
+  secrets: AppSecret[];
+}
+
+/**
+ * Application secrets for one environment. Values are generated on creation;
+ * set a known value with `aws secretsmanager put-secret-value`. Secrets with
+ * `rotateAfterDays` share one rotation function.
+ */
+export class SecretsStack extends cdk.Stack {
+  public readonly secrets: secretsmanager.Secret[];
+
+  constructor(scope: Construct, id: string, props: SecretsStackProps) {
+    super(scope, id, props);
+
+    const { stage } = props;
+    let rotationFunction: lambda.Function | undefined;
+
+    this.secrets = props.secrets.map((definition) => {
+      const secret = new secretsmanager.Secret(this, `${definition.envVar}Secret`, {
+        secretName: appSecretName(stage, definition),
+        description: definition.description,
+        generateSecretString: { passwordLength: SECRET_LENGTH, excludePunctuation: true },
+      });
+
+      if (definition.rotateAfterDays !== undefined) {
+        rotationFunction ??= new lambda.Function(this, 'RotateRandomSecret', {
+          runtime: lambda.Runtime.NODEJS_24_X,
+          handler: 'index.handler',
+          code: lambda.Code.fromAsset(path.join(__dirname, '../../lambda/rotate-random-secret')),
+          environment: { SECRET_LENGTH: `${SECRET_LENGTH}` },
+          timeout: cdk.Duration.seconds(30),
+        });
+        secret.addRotationSchedule('Rotation', {
+          rotationLambda: rotationFunction,
+          automaticallyAfter: cdk.Duration.days(definition.rotateAfterDays),
+        });
+      }
+      return secret;
+    });
+
+    addStandardTags(this, stage);
+  }
+}
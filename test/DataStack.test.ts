@@ -0,0 +1,88 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { DataStack, DataBucketPhase, resolveDataBucketPhase } from '../lib/stacks/DataStack';
+
+describe('DataStack', () => {
+  const stack = new DataStack(new cdk.App(), 'TestDataStack', { env: { account: '123456789012', region: 'us-east-1' } });
+  const template = Template.fromStack(stack);
+
+  const bucketNamed = (name: string) => {
+    const [bucket] = Object.values(template.findResources('AWS::S3::Bucket', { Properties: { BucketName: name } }));
+    return bucket;
+  };
+
+  test('encrypts the health data buckets with the rotating customer-managed key', () => {
+    template.hasResourceProperties('AWS::KMS::Key', { EnableKeyRotation: true });
+    ['ai-health-model-storage', 'aihealthinfra-modelsresults'].forEach((name) => {
+      const bucket = bucketNamed(name);
+      expect(bucket.Properties.BucketEncryption.ServerSideEncryptionConfiguration[0]).toEqual({
+        BucketKeyEnabled: true,
+        ServerSideEncryptionByDefault: {
+          SSEAlgorithm: 'aws:kms',
+          KMSMasterKeyID: { 'Fn::GetAtt': [expect.stringMatching(/^HealthDataKey/), 'Arn'] },
+        },
+      });
+      expect(bucket.Properties.VersioningConfiguration).toEqual({ Status: 'Enabled' });
+      expect(bucket.Properties.LoggingConfiguration).toEqual({
+        DestinationBucketName: { Ref: expect.stringMatching(/^DataAccessLogsBucket/) },
+        LogFilePrefix: `${name}/`,
+      });
+    });
+  });
+
+  test('retains the key and every bucket', () => {
+    Object.values(template.findResources('AWS::S3::Bucket')).forEach((bucket) => {
+      expect(bucket.DeletionPolicy).toBe('Retain');
+    });
+    template.hasResource('AWS::KMS::Key', { DeletionPolicy: 'Retain' });
+  });
+
+  test('denies requests that are not over TLS', () => {
+    template.hasResourceProperties('AWS::S3::BucketPolicy', {
+      Bucket: { Ref: Match.stringLikeRegexp('ModelResultsBucket') },
+      PolicyDocument: {
+        Statement: Match.arrayWith([Match.objectLike({
+          Effect: 'Deny',
+          Condition: { Bool: { 'aws:SecureTransport': 'false' } },
+        })]),
+      },
+    });
+  });
+
+  test('tiers old model results down to cheaper storage', () => {
+    const rule = bucketNamed('aihealthinfra-modelsresults').Properties.LifecycleConfiguration.Rules[0];
+    expect(rule.Transitions.map((transition: { StorageClass: string }) => transition.StorageClass))
+      .toEqual(['STANDARD_IA', 'GLACIER_IR', 'DEEP_ARCHIVE']);
+  });
+
+  describe('adopting the existing buckets', () => {
+    const phaseTemplate = (phase: DataBucketPhase) =>
+      Template.fromStack(new DataStack(new cdk.App(), `Test${phase}DataStack`, { env: { account: '123456789012', region: 'us-east-1' }, phase }));
+
+    test('creates only the key and the log bucket first', () => {
+      const foundation = phaseTemplate('foundation');
+
+      foundation.resourceCountIs('AWS::S3::Bucket', 1);
+      foundation.resourceCountIs('AWS::KMS::Key', 1);
+    });
+
+    test('imports the buckets without referring to anything the import would have to create', () => {
+      const imported = phaseTemplate('import');
+      const buckets = imported.findResources('AWS::S3::Bucket', { Properties: { BucketName: Match.anyValue() } });
+
+      expect(Object.keys(buckets).sort()).toEqual(Object.keys(template.findResources('AWS::S3::Bucket', { Properties: { BucketName: Match.anyValue() } })).sort());
+      Object.values(buckets).forEach((bucket) => {
+        expect(bucket.DeletionPolicy).toBe('Retain');
+        expect(JSON.stringify(bucket.Properties)).not.toMatch(/Ref|Fn::GetAtt/);
+      });
+      imported.resourceCountIs('AWS::S3::BucketPolicy', 1);
+    });
+
+    test('reads the phase from context', () => {
+      expect(resolveDataBucketPhase(new cdk.App().node)).toBe('managed');
+      expect(resolveDataBucketPhase(new cdk.App({ context: { dataBuckets: 'import' } }).node)).toBe('import');
+      expect(() => resolveDataBucketPhase(new cdk.App({ context: { dataBuckets: 'adopt' } }).node))
+        .toThrow("Unknown phase 'adopt' in context 'dataBuckets'");
+    });
+  });
+});
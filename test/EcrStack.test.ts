@@ -0,0 +1,59 @@
+import * as cdk from 'aws-cdk-lib';
+import { Template } from 'aws-cdk-lib/assertions';
+import { EcrStack, releaseImageCount } from '../lib/stacks/EcrStack';
+import { ENVIRONMENTS } from '../lib/config/environments';
+import { SERVICES } from '../lib/config/services';
+
+describe('EcrStack', () => {
+  const app = new cdk.App();
+  const stack = new EcrStack(app, 'TestEcrStack', { services: SERVICES, environments: ENVIRONMENTS, maxImageCount: 60 });
+  const template = Template.fromStack(stack);
+
+  test('creates a release and a preview repository per service image', () => {
+    template.resourceCountIs('AWS::ECR::Repository', 6);
+    ['healthbeservice', 'healthfeservice', 'healthinferenceservice'].forEach((name) => {
+      template.hasResourceProperties('AWS::ECR::Repository', { RepositoryName: `health/${name}` });
+      template.hasResourceProperties('AWS::ECR::Repository', { RepositoryName: `health/${name}-preview` });
+    });
+  });
+
+  test('scans on push and retains repositories', () => {
+    template.allResourcesProperties('AWS::ECR::Repository', {
+      ImageScanningConfiguration: { ScanOnPush: true },
+    });
+    template.allResources('AWS::ECR::Repository', { DeletionPolicy: 'Retain' });
+  });
+
+  test('keeps the configured number of release images', () => {
+    const [repository] = Object.values(template.findResources('AWS::ECR::Repository', { Properties: { RepositoryName: 'health/healthbeservice' } }));
+    const policy = JSON.parse(repository.Properties.LifecyclePolicy.LifecyclePolicyText);
+
+    expect(policy.rules).toEqual([
+      expect.objectContaining({ rulePriority: 1, selection: expect.objectContaining({ tagStatus: 'untagged' }) }),
+      expect.objectContaining({ rulePriority: 2, selection: expect.objectContaining({ tagStatus: 'any', countNumber: 60 }) }),
+    ]);
+  });
+
+  test('keeps by default every release image the stages retain, with as many again to spare', () => {
+    const defaultStack = new EcrStack(new cdk.App(), 'DefaultEcrStack', { services: SERVICES, environments: ENVIRONMENTS });
+    const [repository] = Object.values(Template.fromStack(defaultStack).findResources('AWS::ECR::Repository', { Properties: { RepositoryName: 'health/healthbeservice' } }));
+    const policy = JSON.parse(repository.Properties.LifecyclePolicy.LifecyclePolicyText);
+
+    expect(releaseImageCount(ENVIRONMENTS)).toBe(2 * (ENVIRONMENTS.dev.retainedReleases + ENVIRONMENTS.staging.retainedReleases + ENVIRONMENTS.prod.retainedReleases));
+    expect(policy.rules[1].selection.countNumber).toBe(releaseImageCount(ENVIRONMENTS));
+  });
+
+  test('refuses a count that would expire images of retained releases', () => {
+    expect(() => new EcrStack(new cdk.App(), 'SmallEcrStack', { services: SERVICES, environments: ENVIRONMENTS, maxImageCount: 30 }))
+      .toThrow('maxImageCount 30 would expire images of retained releases; keep at least 40');
+  });
+
+  test('expires preview images two weeks after they are pushed', () => {
+    const [repository] = Object.values(template.findResources('AWS::ECR::Repository', { Properties: { RepositoryName: 'health/healthbeservice-preview' } }));
+    const policy = JSON.parse(repository.Properties.LifecyclePolicy.LifecyclePolicyText);
+
+    expect(policy.rules).toEqual([
+      expect.objectContaining({ selection: expect.objectContaining({ tagStatus: 'any', countType: 'sinceImagePushed', countNumber: 14 }) }),
+    ]);
+  });
+});
@@ -0,0 +1,175 @@
+import * as cdk from 'aws-cdk-lib';
+import { Annotations, Match, Template } from 'aws-cdk-lib/assertions';
+import { EcsEnvironmentStack } from '../lib/stacks/EcsEnvironmentStack';
+import { EcrStack } from '../lib/stacks/EcrStack';
+import { DataStack } from '../lib/stacks/DataStack';
+import { SecretsStack } from '../lib/stacks/SecretsStack';
+import { APP_SECRETS } from '../lib/config/secrets';
+import { SERVICES } from '../lib/config/services';
+import { ENVIRONMENTS, EnvironmentConfig } from '../lib/config/environments';
+import { applyHealthRules } from '../lib/aspects/HealthRules';
+
+const sizing = { cpu: 512, memoryLimitMiB: 1024, desiredCount: 2 };
+
+const ECS_PROD: EnvironmentConfig = {
+  ...ENVIRONMENTS.prod,
+  hosting: {
+    target: 'ecs',
+    services: { HealthBEService: sizing, HealthFEService: sizing, HealthInferenceService: { ...sizing, desiredCount: 1 } },
+    cassandraImage: 'cassandra:4.1',
+  },
+};
+
+describe('EcsEnvironmentStack', () => {
+  const app = new cdk.App();
+  const env = { account: ECS_PROD.account, region: ECS_PROD.region };
+  const ecrStack = new EcrStack(app, 'TestEcrStack', { env, services: SERVICES, environments: ENVIRONMENTS });
+  const dataStack = new DataStack(app, 'TestDataStack', { env });
+  const secretsStack = new SecretsStack(app, 'TestSecretsStack', { env, stage: 'prod', secrets: APP_SECRETS });
+  const stack = new EcsEnvironmentStack(app, 'TestEcsEnvironmentStack', {
+    env,
+    config: ECS_PROD,
+    imageRepositories: ecrStack.repositories,
+    modelBuckets: [dataStack.modelStorageBucket, dataStack.modelResultsBucket],
+    secrets: secretsStack.secrets,
+  });
+  applyHealthRules(app);
+  const template = Template.fromStack(stack);
+
+  test('runs every image service on Fargate with rollback on failed deployments', () => {
+    template.resourceCountIs('AWS::ECS::Service', 3);
+    template.hasResourceProperties('AWS::ECS::Service', {
+      ServiceName: 'health-prod-healthai',
+      Cluster: { Ref: Match.stringLikeRegexp('Cluster') },
+      DesiredCount: 2,
+      LaunchType: 'FARGATE',
+      DeploymentConfiguration: Match.objectLike({ DeploymentCircuitBreaker: { Enable: true, Rollback: true } }),
+    });
+    template.hasResourceProperties('AWS::ECS::Cluster', { ClusterName: 'health-prod' });
+  });
+
+  test('hands every container the app secrets and the Cassandra record', () => {
+    template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+      Family: 'health-prod-healthpy',
+      ContainerDefinitions: [Match.objectLike({
+        Name: 'healthpy',
+        Environment: [{ Name: 'CASSANDRA_HOST', Value: 'cassandra.prod.health.internal' }],
+        Secrets: [Match.objectLike({ Name: 'SERVER_API_KEY' })],
+      })],
+    });
+  });
+
+  test('starts stack deploys from the image the pipeline last deployed, never from latest', () => {
+    const parameters = template.findParameters('*', { Type: 'AWS::SSM::Parameter::Value<String>', Default: '/health/prod/ecs/healthai/image' });
+    template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+      Family: 'health-prod-healthai',
+      ContainerDefinitions: [Match.objectLike({ Image: { Ref: Object.keys(parameters)[0] } })],
+    });
+    expect(JSON.stringify(template.findResources('AWS::ECS::TaskDefinition'))).not.toContain(':latest');
+  });
+
+  describe('load balancer', () => {
+    test('routes /v1/ to the backend and everything else to the frontend, as frontend.conf does', () => {
+      template.hasResourceProperties('AWS::ElasticLoadBalancingV2::ListenerRule', {
+        Conditions: [{ Field: 'path-pattern', PathPatternConfig: { Values: ['/v1/*'] } }],
+        Actions: [Match.objectLike({ TargetGroupArn: { Ref: Match.stringLikeRegexp('HealthBEService') } })],
+      });
+      template.hasResourceProperties('AWS::ElasticLoadBalancingV2::Listener', {
+        Port: 443,
+        DefaultActions: [Match.objectLike({ TargetGroupArn: { Ref: Match.stringLikeRegexp('HealthFEService') } })],
+      });
+      template.hasResourceProperties('AWS::ElasticLoadBalancingV2::TargetGroup', {
+        Port: 8080,
+        HealthCheckPath: '/v1/health',
+      });
+    });
+
+    test('redirects HTTP to HTTPS', () => {
+      template.hasResourceProperties('AWS::ElasticLoadBalancingV2::Listener', {
+        Port: 80,
+        DefaultActions: [Match.objectLike({ Type: 'redirect', RedirectConfig: Match.objectLike({ Protocol: 'HTTPS', Port: '443' }) })],
+      });
+    });
+
+    test('points the domain at the load balancer', () => {
+      template.hasResourceProperties('AWS::Route53::RecordSet', {
+        Name: 'aegiscan.app.',
+        Type: 'A',
+        AliasTarget: Match.objectLike({ DNSName: Match.anyValue() }),
+      });
+    });
+
+    test('rate limits the API per client IP with WAF like ratelimits.conf', () => {
+      template.hasResourceProperties('AWS::WAFv2::WebACL', {
+        Scope: 'REGIONAL',
+        Rules: [Match.objectLike({
+          Name: 'api_limit',
+          Action: { Block: { CustomResponse: { ResponseCode: 429 } } },
+          Statement: {
+            RateBasedStatement: Match.objectLike({
+              Limit: 300,
+              AggregateKeyType: 'IP',
+              ScopeDownStatement: { ByteMatchStatement: Match.objectLike({ SearchString: '/v1/', PositionalConstraint: 'STARTS_WITH' }) },
+            }),
+          },
+        })],
+      });
+      template.resourceCountIs('AWS::WAFv2::WebACLAssociation', 1);
+    });
+  });
+
+  describe('cassandra host', () => {
+    test('keeps Cassandra on an Auto Scaling group of one with a retained data volume', () => {
+      template.hasResourceProperties('AWS::AutoScaling::AutoScalingGroup', { MinSize: '1', MaxSize: '1' });
+      template.hasResource('AWS::EC2::Volume', {
+        DeletionPolicy: 'Retain',
+        Properties: Match.objectLike({ Encrypted: true, Tags: Match.arrayWith([{ Key: 'HealthDataVolume', Value: 'prod' }]) }),
+      });
+    });
+
+    test('only lets the services reach CQL', () => {
+      template.hasResourceProperties('AWS::EC2::SecurityGroupIngress', {
+        FromPort: 9042,
+        ToPort: 9042,
+        SourceSecurityGroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('TasksSG'), 'GroupId'] },
+      });
+    });
+
+    test('points the private record at itself at boot, limited to that record', () => {
+      const userData = JSON.stringify(Object.values(template.findResources('AWS::EC2::LaunchTemplate'))[0].Properties.LaunchTemplateData.UserData);
+      expect(userData).toContain('aws route53 change-resource-record-sets');
+      expect(userData).toContain('--network host -v /data/cassandra:/var/lib/cassandra cassandra:4.1');
+      expect(userData).not.toContain('associate-address');
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([Match.objectLike({
+            Action: 'route53:ChangeResourceRecordSets',
+            Condition: { 'ForAllValues:StringEquals': { 'route53:ChangeResourceRecordSetsNormalizedRecordNames': ['cassandra.prod.health.internal'] } },
+          })]),
+        },
+      });
+    });
+
+    test('backs up the data volume', () => {
+      template.hasResourceProperties('AWS::Backup::BackupPlan', {
+        BackupPlan: Match.objectLike({ BackupPlanName: 'health-prod-data' }),
+      });
+    });
+  });
+
+  test('passes the infra rules', () => {
+    const errors = Annotations.fromStack(stack).findError('*', Match.anyValue());
+    expect(errors).toEqual([]);
+  });
+
+  test('refuses a stage not configured for ECS', () => {
+    const otherApp = new cdk.App();
+    expect(() => new EcsEnvironmentStack(otherApp, 'TestComposeStack', {
+      env,
+      config: ENVIRONMENTS.prod,
+      imageRepositories: {},
+      modelBuckets: [],
+      secrets: [],
+    })).toThrow("Environment 'prod' is not hosted on ECS");
+  });
+});
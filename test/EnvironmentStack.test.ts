@@ -0,0 +1,377 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { EnvironmentStack } from '../lib/stacks/EnvironmentStack';
+import { S3Stack } from '../lib/stacks/S3Stack';
+import { DataStack } from '../lib/stacks/DataStack';
+import { SecretsStack } from '../lib/stacks/SecretsStack';
+import { APP_SECRETS } from '../lib/config/secrets';
+import { ENVIRONMENTS } from '../lib/config/environments';
+
+describe('EnvironmentStack', () => {
+  const app = new cdk.App();
+  const config = ENVIRONMENTS.staging;
+  const env = { account: config.account, region: config.region };
+  const bucketStack = new S3Stack(app, 'TestS3Stack', { env });
+  const dataStack = new DataStack(app, 'TestDataStack', { env });
+  const secretsStack = new SecretsStack(app, 'TestSecretsStack', { env, stage: config.stage, secrets: APP_SECRETS });
+  const stack = new EnvironmentStack(app, 'TestEnvironmentStack', {
+    env,
+    config,
+    imageRepositories: [],
+    deployBucket: bucketStack.deployBucket,
+    modelBuckets: [dataStack.modelStorageBucket, dataStack.modelResultsBucket],
+    secrets: secretsStack.secrets,
+  });
+  const template = Template.fromStack(stack);
+
+  test('sizes the host from the environment config', () => {
+    template.hasResourceProperties('AWS::EC2::LaunchTemplate', {
+      LaunchTemplateData: Match.objectLike({ InstanceType: 't3.medium' }),
+    });
+  });
+
+  describe('self-healing host', () => {
+    test('keeps exactly one host in an Auto Scaling group that hands it the stage tags', () => {
+      template.resourceCountIs('AWS::EC2::Instance', 0);
+      template.hasResourceProperties('AWS::AutoScaling::AutoScalingGroup', {
+        MinSize: '1',
+        MaxSize: '1',
+        HealthCheckType: 'EC2',
+        Tags: Match.arrayWith([{ Key: 'HealthEnv', Value: 'staging', PropagateAtLaunch: true }]),
+      });
+    });
+
+    test('terminates the old host before launching its replacement on updates', () => {
+      template.hasResource('AWS::AutoScaling::AutoScalingGroup', {
+        UpdatePolicy: { AutoScalingRollingUpdate: Match.objectLike({ MaxBatchSize: 1, MinInstancesInService: 0 }) },
+      });
+    });
+
+    test('keeps the data volume and Elastic IP outside the group', () => {
+      template.resourceCountIs('AWS::EC2::EIPAssociation', 0);
+      template.hasResource('AWS::EC2::Volume', {
+        DeletionPolicy: 'Retain',
+        Properties: Match.objectLike({
+          Encrypted: true,
+          VolumeType: 'gp3',
+          Tags: Match.arrayWith([{ Key: 'HealthDataVolume', Value: 'staging' }]),
+        }),
+      });
+    });
+
+    test('lets a new host claim only its own stage\'s address and volume', () => {
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({ Action: 'ec2:AssociateAddress', Condition: { StringEquals: { 'aws:ResourceTag/HealthEnv': 'staging' } } }),
+            Match.objectLike({ Action: 'ec2:AttachVolume', Condition: { StringEquals: { 'aws:ResourceTag/HealthEnv': 'staging' } } }),
+          ]),
+        },
+      });
+    });
+
+    test('claims the address and volume at boot and restarts the last good release', () => {
+      const userData = JSON.stringify(Object.values(template.findResources('AWS::EC2::LaunchTemplate'))[0].Properties.LaunchTemplateData.UserData);
+      expect(userData).toContain('aws ec2 associate-address --allocation-id ');
+      expect(userData).toContain('\\"Name=tag:HealthDataVolume,Values=staging\\" \\"Name=availability-zone,Values=$AVAILABILITY_ZONE\\"');
+      expect(userData).toContain('aws ec2 attach-volume --volume-id \\"$VOLUME_ID\\"');
+      expect(userData).toContain('More than one volume tagged HealthDataVolume=staging in $AVAILABILITY_ZONE: $VOLUME_ID\\"; exit 1; fi');
+      expect(userData).toContain('LAST_GOOD=$(cat /data/health/last-good 2>/dev/null || true)');
+      expect(userData.indexOf('attach-volume')).toBeLessThan(userData.indexOf('LAST_GOOD='));
+    });
+
+    test('keeps last good releases where the release expiry cannot reach them', () => {
+      const statements = Object.values(template.findResources('AWS::IAM::Policy'))
+        .flatMap((policy) => policy.Properties.PolicyDocument.Statement);
+      const kept = statements.filter((statement) => JSON.stringify(statement.Resource).includes('/kept-releases/'));
+
+      expect(kept.flatMap((statement) => [statement.Action].flat())).toEqual(expect.arrayContaining(['s3:PutObject', 's3:DeleteObject*']));
+      kept.forEach((statement) => expect(JSON.stringify(statement.Resource)).toContain('/kept-releases/staging/*'));
+    });
+  });
+
+  describe('least privilege', () => {
+    test('keeps SSH closed when no SSH CIDRs are configured', () => {
+      const ingress = Object.values(template.findResources('AWS::EC2::SecurityGroup'))
+        .flatMap((group) => group.Properties.SecurityGroupIngress ?? []);
+      expect(ingress.map((rule: { FromPort: number }) => rule.FromPort)).not.toContain(22);
+    });
+
+    test('opens SSH only to the configured CIDRs', () => {
+      const sshApp = new cdk.App();
+      const sshBuckets = new S3Stack(sshApp, 'TestS3Stack', { env });
+      const sshStack = new EnvironmentStack(sshApp, 'TestSshEnvironmentStack', {
+        env,
+        config: { ...config, sshCidrs: ['203.0.113.0/24'] },
+        imageRepositories: [],
+        deployBucket: sshBuckets.deployBucket,
+        modelBuckets: [],
+        secrets: [],
+      });
+      Template.fromStack(sshStack).hasResourceProperties('AWS::EC2::SecurityGroup', {
+        SecurityGroupIngress: Match.arrayWith([Match.objectLike({ CidrIp: '203.0.113.0/24', FromPort: 22, ToPort: 22 })]),
+      });
+    });
+
+    test('grants bucket access instead of account-wide S3 read', () => {
+      const roles = JSON.stringify(template.findResources('AWS::IAM::Role'));
+      expect(roles).not.toContain('AmazonS3ReadOnlyAccess');
+
+      const policies = JSON.stringify(template.findResources('AWS::IAM::Policy'));
+      expect(policies).not.toMatch(/arn:aws:s3:::/);
+      expect(policies).toContain('ModelStorageBucket');
+      expect(policies).toContain('ModelResultsBucket');
+      expect(policies).toContain('WorkspaceDeployBucket');
+      // Model buckets are encrypted with the data key, so their grants carry it along
+      expect(policies).toContain('HealthDataKey');
+    });
+
+    test('reads only the secrets of its own stack', () => {
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([Match.objectLike({
+            Action: ['secretsmanager:GetSecretValue', 'secretsmanager:DescribeSecret'],
+            Resource: { 'Fn::ImportValue': Match.stringLikeRegexp('TestSecretsStack') },
+          })]),
+        },
+      });
+      expect(JSON.stringify(template.toJSON())).not.toContain('HealthAI-DevServerAPIKey');
+    });
+  });
+
+  describe('monitoring', () => {
+    test('ships nginx and container logs to per-stage log groups', () => {
+      ['/health/staging/nginx/access', '/health/staging/nginx/error', '/health/staging/docker'].forEach((name) => {
+        template.hasResourceProperties('AWS::Logs::LogGroup', { LogGroupName: name });
+      });
+    });
+
+    test('counts nginx 5xx and 429 responses from the access log', () => {
+      template.hasResourceProperties('AWS::Logs::MetricFilter', {
+        FilterPattern: Match.stringLikeRegexp('status >= 500'),
+        MetricTransformations: [Match.objectLike({ MetricName: 'Http5xx', MetricNamespace: 'HealthNginx/staging' })],
+      });
+      template.hasResourceProperties('AWS::Logs::MetricFilter', {
+        FilterPattern: Match.stringLikeRegexp('status = 429'),
+        MetricTransformations: [Match.objectLike({ MetricName: 'Http429', MetricNamespace: 'HealthNginx/staging' })],
+      });
+    });
+
+    test('alarms on /data disk, status checks and nginx error rates through SNS', () => {
+      // Four host alarms plus the Route 53 health check alarm
+      template.resourceCountIs('AWS::CloudWatch::Alarm', 5);
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        MetricName: 'disk_used_percent',
+        Namespace: 'CWAgent',
+        Dimensions: Match.arrayWith([{ Name: 'path', Value: '/data' }]),
+        AlarmActions: [{ Ref: Match.stringLikeRegexp('MonitoringAlarmTopic') }],
+      });
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', { MetricName: 'StatusCheckFailed', Namespace: 'AWS/EC2' });
+    });
+
+    test('creates a dashboard per environment', () => {
+      template.hasResourceProperties('AWS::CloudWatch::Dashboard', { DashboardName: 'Health-staging' });
+    });
+
+    test('lets the instance run the CloudWatch agent', () => {
+      template.hasResourceProperties('AWS::IAM::Role', {
+        ManagedPolicyArns: Match.arrayWith([
+          { 'Fn::Join': ['', ['arn:', { Ref: 'AWS::Partition' }, ':iam::aws:policy/CloudWatchAgentServerPolicy']] },
+        ]),
+      });
+    });
+  });
+
+  describe('dns and tls', () => {
+    test('describes the host security group by its stage', () => {
+      template.hasResourceProperties('AWS::EC2::SecurityGroup', { GroupDescription: 'Security group for the HealthStaging host' });
+    });
+
+    test('points the environment domain at the Elastic IP', () => {
+      template.hasResourceProperties('AWS::Route53::RecordSet', {
+        Name: 'staging.aegiscan.app.',
+        Type: 'A',
+        ResourceRecords: [{ Ref: Match.stringLikeRegexp('DevInstanceEIP') }],
+      });
+    });
+
+    test('never deletes a record created outside the stack', () => {
+      template.resourceCountIs('Custom::DeleteExistingRecordSet', 0);
+    });
+
+    test('health checks the site over HTTPS and alarms through SNS', () => {
+      template.hasResourceProperties('AWS::Route53::HealthCheck', {
+        HealthCheckConfig: Match.objectLike({
+          Type: 'HTTPS',
+          FullyQualifiedDomainName: 'staging.aegiscan.app',
+          ResourcePath: '/v1/health',
+          Port: 443,
+        }),
+      });
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        Namespace: 'AWS/Route53',
+        MetricName: 'HealthCheckStatus',
+        AlarmActions: [{ Ref: Match.stringLikeRegexp('MonitoringAlarmTopic') }],
+      });
+    });
+
+    test('issues the certificate once through an SSM association on the stage hosts', () => {
+      const associations = template.findResources('AWS::SSM::Association', {
+        Properties: { AssociationName: 'health-staging-certificate-bootstrap' },
+      });
+      const [association] = Object.values(associations);
+      expect(association.Properties.Targets).toEqual([{ Key: 'tag:HealthEnv', Values: ['staging'] }]);
+      expect(association.Properties.Parameters.commands[1]).toBe('bash /home/ec2-user/bin/certificate-bootstrap.sh');
+      expect(association.DependsOn).toEqual(expect.arrayContaining([expect.stringMatching(/^DnsRecord/)]));
+    });
+  });
+
+  describe('data volume backup', () => {
+    test('snapshots the tagged data volume on the configured schedule and retention', () => {
+      template.hasResourceProperties('AWS::Backup::BackupPlan', {
+        BackupPlan: {
+          BackupPlanName: 'health-staging-data',
+          BackupPlanRule: [Match.objectLike({
+            ScheduleExpression: 'cron(0 5 * * ? *)',
+            Lifecycle: { DeleteAfterDays: 14 },
+          })],
+        },
+      });
+      template.hasResourceProperties('AWS::Backup::BackupSelection', {
+        BackupSelection: Match.objectLike({
+          ListOfTags: [{ ConditionKey: 'HealthDataVolume', ConditionType: 'STRINGEQUALS', ConditionValue: 'staging' }],
+        }),
+      });
+      template.hasResource('AWS::Backup::BackupVault', { DeletionPolicy: 'Retain' });
+    });
+
+    test('tags the data volume itself instead of looking it up through the instance', () => {
+      template.resourceCountIs('Custom::AWS', 0);
+    });
+
+    test('defines a restore runbook that swaps the volume and remounts /data', () => {
+      const documents = template.findResources('AWS::SSM::Document', {
+        Properties: { Name: 'Health-staging-RestoreDataVolume', DocumentType: 'Automation' },
+      });
+      const [document] = Object.values(documents);
+      const steps = document.Properties.Content.mainSteps.map((step: { name: string }) => step.name);
+      expect(steps).toEqual([
+        'FindInstance',
+        'DescribeCurrentVolume',
+        'CreateRestoredVolume',
+        'WaitForRestoredVolume',
+        'StopServices',
+        'DetachCurrentVolume',
+        'WaitForDetach',
+        'AttachRestoredVolume',
+        'WaitForAttach',
+        'MoveBackupTag',
+        'TagRestoredVolume',
+        'RemountAndStart',
+      ]);
+      expect(document.Properties.Content.parameters.SnapshotId.type).toBe('String');
+    });
+
+    test('stops the CloudWatch agent tailing container logs before unmounting /data', () => {
+      const [document] = Object.values(template.findResources('AWS::SSM::Document', {
+        Properties: { Name: 'Health-staging-RestoreDataVolume' },
+      }));
+      const commandsOf = (name: string): string[] => document.Properties.Content.mainSteps
+        .find((step: { name: string }) => step.name === name).inputs.Parameters.commands;
+      const stop = commandsOf('StopServices');
+      const stopAgent = stop.findIndex((command) => command.includes('systemctl stop amazon-cloudwatch-agent'));
+
+      expect(stopAgent).toBeGreaterThan(-1);
+      expect(stopAgent).toBeLessThan(stop.indexOf('umount /data || true'));
+      expect(commandsOf('RemountAndStart').join('\n')).toContain('systemctl start amazon-cloudwatch-agent');
+    });
+
+    test('never reformats a volume that already has a filesystem', () => {
+      const [launchTemplate] = Object.values(template.findResources('AWS::EC2::LaunchTemplate'));
+      const userData = JSON.stringify(launchTemplate.Properties.LaunchTemplateData.UserData);
+      expect(userData).toContain('if [ -z \\"$DATA_UUID\\" ]; then sudo mkfs -t xfs /dev/sdh;');
+      expect(userData).not.toContain('mkfs -t xfs /dev/sdh || true');
+    });
+
+    test('adds the /data fstab entry only once', () => {
+      const [launchTemplate] = Object.values(template.findResources('AWS::EC2::LaunchTemplate'));
+      const userData = JSON.stringify(launchTemplate.Properties.LaunchTemplateData.UserData);
+      expect(userData).toContain("grep -q ' /data ' /etc/fstab || echo");
+    });
+  });
+
+  describe('cost controls', () => {
+    test('budgets the stage by its HealthEnv cost allocation tag and notifies the alarm topic', () => {
+      template.hasResourceProperties('AWS::Budgets::Budget', {
+        Budget: Match.objectLike({
+          BudgetName: 'health-staging-monthly',
+          BudgetLimit: { Amount: 150, Unit: 'USD' },
+          CostFilters: { TagKeyValue: ['user:HealthEnv$staging'] },
+        }),
+        NotificationsWithSubscribers: [
+          Match.objectLike({ Notification: Match.objectLike({ NotificationType: 'ACTUAL', Threshold: 80 }) }),
+          Match.objectLike({ Notification: Match.objectLike({ NotificationType: 'ACTUAL', Threshold: 100 }) }),
+          Match.objectLike({
+            Notification: Match.objectLike({ NotificationType: 'FORECASTED', Threshold: 100 }),
+            Subscribers: [{ SubscriptionType: 'SNS', Address: { Ref: Match.stringLikeRegexp('MonitoringAlarmTopic') } }],
+          }),
+        ],
+      });
+      template.hasResourceProperties('AWS::SNS::TopicPolicy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([Match.objectLike({ Principal: { Service: 'budgets.amazonaws.com' } })]),
+        },
+      });
+    });
+
+    test('keeps hosts without a schedule running', () => {
+      template.resourceCountIs('AWS::Scheduler::Schedule', 0);
+    });
+
+    test('stops and starts scheduled hosts by tag and mutes their alarms while down', () => {
+      const scheduledApp = new cdk.App();
+      const scheduledBuckets = new S3Stack(scheduledApp, 'TestS3Stack', { env });
+      const scheduledStack = new EnvironmentStack(scheduledApp, 'TestScheduledEnvironmentStack', {
+        env,
+        config: { ...config, instanceSchedule: ENVIRONMENTS.dev.instanceSchedule },
+        imageRepositories: [],
+        deployBucket: scheduledBuckets.deployBucket,
+        modelBuckets: [],
+        secrets: [],
+      });
+      const scheduled = Template.fromStack(scheduledStack);
+      const schedules = Object.values(scheduled.findResources('AWS::Scheduler::Schedule'));
+      // Inputs carry the alarm names, so they synthesize to Fn::Join
+      const inputs = JSON.stringify(schedules.map((schedule) => schedule.Properties.Target.Input));
+
+      expect(schedules.map((schedule) => schedule.Properties.ScheduleExpression).sort()).toEqual([
+        'cron(0 20 * * ? *)',
+        'cron(0 7 ? * MON-FRI *)',
+      ]);
+      schedules.forEach((schedule) => expect(schedule.Properties.ScheduleExpressionTimezone).toBe('America/New_York'));
+      expect(inputs).toContain('\\"action\\":\\"stop\\",\\"envName\\":\\"staging\\"');
+      scheduled.hasResourceProperties('AWS::IAM::Policy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([Match.objectLike({
+            Action: ['ec2:StopInstances', 'ec2:StartInstances'],
+            Condition: { StringEquals: { 'aws:ResourceTag/HealthEnv': 'staging' } },
+          })]),
+        },
+      });
+      scheduled.hasResourceProperties('AWS::IAM::Policy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([Match.objectLike({ Action: ['cloudwatch:DisableAlarmActions', 'cloudwatch:EnableAlarmActions'] })]),
+        },
+      });
+      // A stopped host must not be replaced by its group
+      scheduled.hasResourceProperties('AWS::IAM::Policy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([Match.objectLike({
+            Action: ['autoscaling:SuspendProcesses', 'autoscaling:ResumeProcesses'],
+            Condition: { StringEquals: { 'autoscaling:ResourceTag/HealthEnv': 'staging' } },
+          })]),
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import { Annotations, Match } from 'aws-cdk-lib/assertions';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import { applyHealthRules, suppressRule } from '../lib/aspects/HealthRules';
+import { addStandardTags } from '../lib/config/tags';
+
+const ENV = { account: '123456789012', region: 'us-east-1' };
+
+function ruleStack(build: (stack: cdk.Stack) => void, options: { tagged?: boolean } = {}) {
+  const app = new cdk.App();
+  const stack = new cdk.Stack(app, 'RuleStack', { env: ENV });
+  build(stack);
+  if (options.tagged ?? true) {
+    addStandardTags(stack, 'dev');
+  }
+  applyHealthRules(app);
+  app.synth();
+  return Annotations.fromStack(stack);
+}
+
+function compliantBucket(stack: cdk.Stack, id = 'Bucket') {
+  return new s3.Bucket(stack, id, {
+    encryption: s3.BucketEncryption.S3_MANAGED,
+    blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+  });
+}
+
+describe('HealthRules', () => {
+  describe('NoHardcodedAccountId', () => {
+    const withRoleResource = (resource: string) => ruleStack((stack) => {
+      new iam.Role(stack, 'Role', { assumedBy: new iam.ServicePrincipal('ec2.amazonaws.com') })
+        .addToPolicy(new iam.PolicyStatement({ actions: ['s3:GetObject'], resources: [resource] }));
+    });
+
+    test('flags an ARN with another account baked in', () => {
+      withRoleResource('arn:aws:secretsmanager:us-east-1:210987654321:secret:Key-*')
+        .hasError('/RuleStack/Role/DefaultPolicy/Resource', Match.stringLikeRegexp('NoHardcodedAccountId.*210987654321'));
+    });
+
+    test('flags an ARN with the stack\'s own account baked in', () => {
+      withRoleResource(`arn:aws:sns:us-east-1:${ENV.account}:alerts`)
+        .hasError('/RuleStack/Role/DefaultPolicy/Resource', Match.stringLikeRegexp(`NoHardcodedAccountId.*${ENV.account}`));
+    });
+
+    test('relies on the app rendering partitions as references', () => {
+      expect(JSON.parse(readFileSync(path.join(__dirname, '../cdk.json'), 'utf8')).context['@aws-cdk/core:enablePartitionLiterals']).toBe(false);
+    });
+
+    test('accepts ARNs built from the stack environment', () => {
+      ruleStack((stack) => {
+        new iam.Role(stack, 'Role', { assumedBy: new iam.ServicePrincipal('ec2.amazonaws.com') })
+          .addToPolicy(new iam.PolicyStatement({
+            actions: ['ssm:SendCommand'],
+            resources: [stack.formatArn({ service: 'ec2', resource: 'instance', resourceName: '*' })],
+          }));
+      }).hasNoError('*', Match.anyValue());
+    });
+  });
+
+  describe('NoOpenIngress', () => {
+    const withIngress = (port: ec2.Port) => ruleStack((stack) => {
+      const vpc = new ec2.Vpc(stack, 'Vpc', { maxAzs: 1, natGateways: 0 });
+      new ec2.SecurityGroup(stack, 'Sg', { vpc }).addIngressRule(ec2.Peer.anyIpv4(), port);
+    });
+
+    test('flags SSH open to the internet', () => {
+      withIngress(ec2.Port.tcp(22)).hasError('/RuleStack/Sg/Resource', Match.stringLikeRegexp('NoOpenIngress.*tcp 22'));
+    });
+
+    test('allows HTTP and HTTPS from anywhere', () => {
+      withIngress(ec2.Port.tcp(443)).hasNoError('*', Match.anyValue());
+      withIngress(ec2.Port.tcp(80)).hasNoError('*', Match.anyValue());
+    });
+  });
+
+  describe('BucketSecurity', () => {
+    test('requires encryption and a full public access block', () => {
+      const annotations = ruleStack((stack) => {
+        new s3.Bucket(stack, 'Bucket', { blockPublicAccess: s3.BlockPublicAccess.BLOCK_ACLS });
+      });
+      annotations.hasError('/RuleStack/Bucket/Resource', Match.stringLikeRegexp('BucketSecurity.*server-side encryption'));
+      annotations.hasError('/RuleStack/Bucket/Resource', Match.stringLikeRegexp('BucketSecurity.*block all public access'));
+    });
+
+    test('accepts an encrypted, fully blocked bucket', () => {
+      ruleStack((stack) => compliantBucket(stack)).hasNoError('*', Match.anyValue());
+    });
+  });
+
+  describe('EncryptedEbs', () => {
+    const withInstance = (encrypted: boolean) => ruleStack((stack) => {
+      const vpc = new ec2.Vpc(stack, 'Vpc', { maxAzs: 1, natGateways: 0 });
+      new ec2.Instance(stack, 'Instance', {
+        vpc,
+        instanceType: ec2.InstanceType.of(ec2.InstanceClass.T3, ec2.InstanceSize.MICRO),
+        machineImage: ec2.MachineImage.latestAmazonLinux2(),
+        blockDevices: [{ deviceName: '/dev/sdh', volume: ec2.BlockDeviceVolume.ebs(10, { encrypted }) }],
+      });
+      new ec2.Volume(stack, 'Volume', { availabilityZone: 'us-east-1a', size: cdk.Size.gibibytes(10), encrypted });
+    });
+
+    test('flags unencrypted instance block devices and volumes', () => {
+      const annotations = withInstance(false);
+      annotations.hasError('/RuleStack/Instance/Resource', Match.stringLikeRegexp('EncryptedEbs.*/dev/sdh'));
+      annotations.hasError('/RuleStack/Volume/Resource', Match.stringLikeRegexp('EncryptedEbs'));
+    });
+
+    test('accepts encrypted volumes', () => {
+      withInstance(true).hasNoError('*', Match.anyValue());
+    });
+  });
+
+  describe('RequiredTags', () => {
+    test('warns about taggable resources without HealthEnv and Owner', () => {
+      ruleStack((stack) => compliantBucket(stack), { tagged: false })
+        .hasWarning('/RuleStack/Bucket/Resource', Match.stringLikeRegexp('RequiredTags.*HealthEnv, Owner'));
+    });
+
+    test('is satisfied by the standard tags', () => {
+      ruleStack((stack) => compliantBucket(stack)).hasNoWarning('*', Match.stringLikeRegexp('RequiredTags'));
+    });
+  });
+
+  describe('suppressions', () => {
+    test('silence a rule below the suppressed scope only', () => {
+      const annotations = ruleStack((stack) => {
+        const legacy = new s3.Bucket(stack, 'Legacy');
+        suppressRule(legacy, 'BucketSecurity', 'Imported from the old account, migrated in a follow-up');
+        new s3.Bucket(stack, 'Fresh');
+      });
+      annotations.hasNoError('/RuleStack/Legacy/Resource', Match.anyValue());
+      annotations.hasError('/RuleStack/Fresh/Resource', Match.stringLikeRegexp('BucketSecurity'));
+    });
+
+    test('require a justification', () => {
+      const stack = new cdk.Stack(new cdk.App(), 'RuleStack');
+      expect(() => suppressRule(stack, 'NoOpenIngress', ' ')).toThrow(/requires a justification/);
+    });
+  });
+});
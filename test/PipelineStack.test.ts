@@ -0,0 +1,282 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { PipelineStack } from '../lib/stacks/PipelineStack';
+import { EcrStack } from '../lib/stacks/EcrStack';
+import { S3Stack } from '../lib/stacks/S3Stack';
+import { ENVIRONMENTS } from '../lib/config/environments';
+import { SERVICES } from '../lib/config/services';
+import { releaseTimeoutSeconds } from '../lib/release/render';
+
+describe('PipelineStack', () => {
+  const app = new cdk.App();
+  const env = { account: '123456789012', region: 'us-east-1' };
+  const ecrStack = new EcrStack(app, 'TestEcrStack', { env, services: SERVICES, environments: ENVIRONMENTS });
+  const bucketStack = new S3Stack(app, 'TestS3Stack', { env });
+  const stack = new PipelineStack(app, 'TestPipelineStack', {
+    env,
+    deployBucket: bucketStack.deployBucket,
+    environments: ENVIRONMENTS,
+    imageRepositories: ecrStack.repositories,
+  });
+  const template = Template.fromStack(stack);
+
+  function buildSpecFor(projectName: string): string {
+    const projects = template.findResources('AWS::CodeBuild::Project', {
+      Properties: { Name: projectName },
+    });
+    return Object.values(projects)[0].Properties.Source.BuildSpec;
+  }
+
+  test('promotes through dev, staging and a manual approval before prod', () => {
+    const pipeline = Object.values(template.findResources('AWS::CodePipeline::Pipeline'))[0];
+    const stageNames = pipeline.Properties.Stages.map((stage: { Name: string }) => stage.Name);
+
+    expect(stageNames).toEqual(['Source', 'Package', 'DeployToDev', 'IntegrationTests', 'DeployToStaging', 'ApproveProd', 'DeployToProd']);
+  });
+
+  test('packages the libraries before the backend that builds against them', () => {
+    const pipeline = Object.values(template.findResources('AWS::CodePipeline::Pipeline'))[0];
+    const packageStage = pipeline.Properties.Stages.find((stage: { Name: string }) => stage.Name === 'Package');
+    const runOrders = Object.fromEntries(packageStage.Actions.map((action: { Name: string; RunOrder: number }) => [action.Name, action.RunOrder]));
+
+    expect(runOrders).toMatchObject({ Build_HealthDAO: 1, Build_HealthSAO: 1, Build_HealthBEService: 2, Build_HealthFEService: 1, Assemble_Workspace: 3 });
+  });
+
+  test('approval carries a link to the execution being promoted', () => {
+    template.hasResourceProperties('AWS::CodePipeline::Pipeline', {
+      Stages: Match.arrayWith([Match.objectLike({
+        Name: 'ApproveProd',
+        Actions: [Match.objectLike({
+          ActionTypeId: Match.objectLike({ Category: 'Approval' }),
+          Configuration: Match.objectLike({
+            ExternalEntityLink: Match.stringLikeRegexp('executions/#\\{codepipeline.PipelineExecutionId\\}'),
+          }),
+        })],
+      })]),
+    });
+  });
+
+  test('each deploy targets its own environment tag and the same release id', () => {
+    (['Dev', 'Staging', 'Prod'] as const).forEach((title) => {
+      const buildSpec = buildSpecFor(`DockerComposeDeploy${title}`);
+      expect(buildSpec).toContain(`Key=tag:HealthEnv,Values=${title.toLowerCase()}`);
+      expect(buildSpec).toContain('release.sh $RELEASE_ID');
+      expect(buildSpec).not.toContain('certbot');
+      expect(buildSpec).not.toContain('crontab');
+    });
+  });
+
+  test('deploy projects may only run shell scripts on their own environment instances', () => {
+    const sendCommand = Object.values(template.findResources('AWS::IAM::Policy'))
+      .flatMap((policy) => policy.Properties.PolicyDocument.Statement)
+      .filter((statement: { Action: string | string[] }) => statement.Action === 'ssm:SendCommand');
+
+    expect(sendCommand.length).toBeGreaterThan(0);
+    sendCommand.forEach((statement: { Resource: unknown }) => expect(statement.Resource).not.toEqual('*'));
+    expect(JSON.stringify(sendCommand)).toContain(':document/AWS-RunShellScript');
+    (['dev', 'staging', 'prod'] as const).forEach((stage) => {
+      expect(sendCommand).toContainEqual(expect.objectContaining({
+        Condition: { StringEquals: { 'ssm:resourceTag/HealthEnv': stage } },
+      }));
+    });
+  });
+
+  test('gives the deploy command time to roll back after a health gate that ran to its deadline', () => {
+    const [, timeout] = buildSpecFor('DockerComposeDeployDev').match(/--timeout-seconds (\d+)/)!;
+
+    expect(Number(timeout)).toBeGreaterThan(releaseTimeoutSeconds());
+  });
+
+  test('deploys start hosts stopped by their schedule before sending the command', () => {
+    const buildSpec = buildSpecFor('DockerComposeDeployDev');
+    expect(buildSpec.indexOf('bash start-stopped-hosts.sh dev')).toBeGreaterThan(-1);
+    expect(buildSpec.indexOf('bash start-stopped-hosts.sh dev')).toBeLessThan(buildSpec.indexOf('aws ssm send-command'));
+
+    const startInstances = Object.values(template.findResources('AWS::IAM::Policy'))
+      .flatMap((policy) => policy.Properties.PolicyDocument.Statement)
+      .filter((statement: { Action: string | string[] }) => statement.Action === 'ec2:StartInstances');
+    expect(startInstances).toContainEqual(expect.objectContaining({
+      Condition: { StringEquals: { 'aws:ResourceTag/HealthEnv': 'dev' } },
+    }));
+
+    const enableAlarms = Object.values(template.findResources('AWS::IAM::Policy'))
+      .flatMap((policy) => policy.Properties.PolicyDocument.Statement)
+      .filter((statement: { Action: string | string[] }) => statement.Action === 'cloudwatch:EnableAlarmActions');
+    expect(enableAlarms).toContainEqual(expect.objectContaining({
+      Condition: { StringEquals: { 'aws:ResourceTag/HealthEnv': 'dev' } },
+    }));
+  });
+
+  test('sources every repo through the CodeStar connection instead of an OAuth token', () => {
+    const pipeline = Object.values(template.findResources('AWS::CodePipeline::Pipeline'))[0];
+    const sourceActions = pipeline.Properties.Stages[0].Actions;
+
+    sourceActions.forEach((action: { ActionTypeId: { Provider: string }; Configuration: Record<string, unknown> }) => {
+      expect(action.ActionTypeId.Provider).toBe('CodeStarSourceConnection');
+      expect(action.Configuration.ConnectionArn).toEqual({ 'Fn::GetAtt': [expect.stringMatching(/^GitHubConnection/), 'ConnectionArn'] });
+    });
+    expect(JSON.stringify(template.toJSON())).not.toContain('GITHUB_TOKEN}}');
+  });
+
+  test('deploys render the stage secrets into the containers env file', () => {
+    const [, encoded] = buildSpecFor('DockerComposeDeployProd').match(/echo (\S+) \| base64 -d > \/home\/ec2-user\/bin\/release\.sh/)!;
+    const releaseScript = Buffer.from(encoded, 'base64').toString();
+
+    expect(releaseScript).toContain('--secret-id health/prod/server-api-key');
+    expect(releaseScript).toContain('SERVER_API_KEY');
+  });
+
+  test('integration tests run from the source artifact and publish JUnit results to a report group', () => {
+    // The report group ARN keys the reports section, so the buildspec is joined around it
+    const [, parts] = (buildSpecFor('DevIntegrationTestRun') as unknown as { 'Fn::Join': [string, unknown[]] })['Fn::Join'];
+    const [before, reportGroupArn, after] = parts;
+    const buildSpec = JSON.parse(`${before}REPORT_GROUP_ARN${after}`);
+
+    expect(reportGroupArn).toEqual({ 'Fn::GetAtt': [expect.stringMatching(/^DevIntegrationTestReports/), 'Arn'] });
+    expect(buildSpec.phases.build.commands.join('\n')).toContain('--tests org.dev.HealthDevBEIntegrationTestSuite');
+    expect(JSON.stringify(buildSpec)).not.toContain('git clone');
+    expect(buildSpec.reports).toEqual({
+      REPORT_GROUP_ARN: { files: ['*.xml'], 'base-directory': 'build/test-results/test', 'file-format': 'JUNITXML' },
+    });
+    template.hasResourceProperties('AWS::CodeBuild::ReportGroup', { Name: 'DevIntegrationTests', Type: 'TEST' });
+    template.hasResourceProperties('AWS::CodeBuild::Project', {
+      Name: 'DevIntegrationTestRun',
+      Environment: Match.objectLike({
+        EnvironmentVariables: [{ Name: 'HEALTH_BASE_URL', Type: 'PLAINTEXT', Value: 'https://dev.aegiscan.app' }],
+      }),
+    });
+  });
+
+  test('deploys an ECS stage by rolling its services onto the release digests', () => {
+    const ecsApp = new cdk.App();
+    const ecsBuckets = new S3Stack(ecsApp, 'EcsS3Stack', { env });
+    const sizing = { cpu: 512, memoryLimitMiB: 1024, desiredCount: 1 };
+    const prod = {
+      ...ENVIRONMENTS.prod,
+      hosting: {
+        target: 'ecs' as const,
+        services: { HealthBEService: sizing, HealthFEService: sizing, HealthInferenceService: sizing },
+        cassandraImage: 'cassandra:4.1',
+      },
+    };
+    const ecsTemplate = Template.fromStack(new PipelineStack(ecsApp, 'EcsPipelineStack', {
+      env,
+      deployBucket: ecsBuckets.deployBucket,
+      environments: { ...ENVIRONMENTS, prod },
+      imageRepositories: {},
+    }));
+
+    const [project] = Object.values(ecsTemplate.findResources('AWS::CodeBuild::Project', { Properties: { Name: 'EcsDeployProd' } }));
+    expect(project.Properties.Source.BuildSpec).toContain('bash ecs-deploy.sh \\"$RELEASE_ID\\" \\"$DEPLOY_BUCKET_NAME\\"');
+    ecsTemplate.resourcePropertiesCountIs('AWS::CodeBuild::Project', { Name: 'DockerComposeDeployProd' }, 0);
+    const statements = Object.values(ecsTemplate.findResources('AWS::IAM::Policy'))
+      .flatMap((policy) => policy.Properties.PolicyDocument.Statement);
+    const updateService = statements.find((statement: { Action: string | string[] }) => JSON.stringify(statement.Action).includes('ecs:UpdateService'));
+    expect(JSON.stringify(updateService.Resource)).toContain(':service/health-prod/health-prod-healthai');
+    const putParameter = statements.find((statement: { Action: string | string[] }) => statement.Action === 'ssm:PutParameter');
+    expect(JSON.stringify(putParameter.Resource)).toContain(':parameter/health/prod/ecs/healthai/image');
+    expect(statements).toContainEqual(expect.objectContaining({
+      Action: 'iam:PassRole',
+      Condition: { StringEquals: { 'iam:PassedToService': 'ecs-tasks.amazonaws.com' } },
+    }));
+  });
+
+  describe('notifications', () => {
+    test('sends pipeline and stage state changes to the notifications topic', () => {
+      template.hasResourceProperties('AWS::CodeStarNotifications::NotificationRule', {
+        DetailType: 'FULL',
+        EventTypeIds: [
+          'codepipeline-pipeline-pipeline-execution-started',
+          'codepipeline-pipeline-pipeline-execution-succeeded',
+          'codepipeline-pipeline-pipeline-execution-failed',
+          'codepipeline-pipeline-stage-execution-succeeded',
+          'codepipeline-pipeline-stage-execution-failed',
+          'codepipeline-pipeline-manual-approval-needed',
+        ],
+        Targets: [{ TargetType: 'SNS', TargetAddress: { Ref: Match.stringLikeRegexp('NotificationsTopic') } }],
+      });
+      template.resourceCountIs('AWS::Chatbot::SlackChannelConfiguration', 0);
+    });
+
+    test('builds a digest for every failed action of this pipeline', () => {
+      template.hasResourceProperties('AWS::Events::Rule', {
+        EventPattern: {
+          source: ['aws.codepipeline'],
+          'detail-type': ['CodePipeline Action Execution State Change'],
+          detail: { pipeline: [{ Ref: Match.stringLikeRegexp('Pipeline') }], state: ['FAILED'] },
+        },
+        Targets: [Match.objectLike({ Arn: { 'Fn::GetAtt': [Match.stringLikeRegexp('NotificationsDigestFunction'), 'Arn'] } })],
+      });
+    });
+
+    test('the digest may read build logs and command output and publish to the topic', () => {
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        Roles: [{ Ref: Match.stringLikeRegexp('NotificationsDigestFunctionServiceRole') }],
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({ Action: 'sns:Publish' }),
+            Match.objectLike({ Action: 'codebuild:BatchGetBuilds' }),
+            Match.objectLike({
+              Action: 'logs:GetLogEvents',
+              Resource: { 'Fn::Join': ['', Match.arrayWith([Match.stringLikeRegexp(':log-group:/aws/codebuild/\\*$')])] },
+            }),
+            Match.objectLike({ Action: ['ssm:ListCommandInvocations', 'ssm:GetCommandInvocation'], Resource: '*' }),
+          ]),
+        },
+      });
+    });
+
+    test('deploys print the SSM command id the digest looks for', () => {
+      expect(buildSpecFor('DockerComposeDeployDev')).toContain('echo \\"SSM command $COMMAND_ID sent, polling for status...\\"');
+    });
+
+    test('deploys send their full output to a log group the digest may read', () => {
+      expect(buildSpecFor('DockerComposeDeployDev')).toContain('--cloud-watch-output-config \\"CloudWatchOutputEnabled=true,CloudWatchLogGroupName=/health/deploy-commands\\"');
+      template.hasResourceProperties('AWS::Logs::LogGroup', { LogGroupName: '/health/deploy-commands', RetentionInDays: 30 });
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        Roles: [{ Ref: Match.stringLikeRegexp('NotificationsDigestFunctionServiceRole') }],
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Action: 'logs:GetLogEvents',
+              Resource: { 'Fn::GetAtt': [Match.stringLikeRegexp('DeployCommandOutput'), 'Arn'] },
+            }),
+          ]),
+        },
+      });
+    });
+
+    test('subscribes the configured emails and Slack channel', () => {
+      const notifiedApp = new cdk.App();
+      const notifiedBuckets = new S3Stack(notifiedApp, 'NotifiedS3Stack', { env });
+      const notifiedTemplate = Template.fromStack(new PipelineStack(notifiedApp, 'NotifiedPipelineStack', {
+        env,
+        deployBucket: notifiedBuckets.deployBucket,
+        environments: ENVIRONMENTS,
+        imageRepositories: {},
+        notifications: { emails: ['oncall@aegiscan.app'], slack: { workspaceId: 'T0123ABCD', channelId: 'C0456EFGH' } },
+      }));
+
+      notifiedTemplate.hasResourceProperties('AWS::SNS::Subscription', { Protocol: 'email', Endpoint: 'oncall@aegiscan.app' });
+      notifiedTemplate.hasResourceProperties('AWS::Chatbot::SlackChannelConfiguration', {
+        SlackWorkspaceId: 'T0123ABCD',
+        SlackChannelId: 'C0456EFGH',
+        SnsTopicArns: [{ Ref: Match.stringLikeRegexp('NotificationsTopic') }],
+      });
+    });
+  });
+
+  test('requires integration test config for the environment that gates promotion', () => {
+    const gatelessApp = new cdk.App();
+    const gatelessBuckets = new S3Stack(gatelessApp, 'GatelessS3Stack', { env });
+    const { integrationTests, ...dev } = ENVIRONMENTS.dev;
+
+    expect(integrationTests).toBeDefined();
+    expect(() => new PipelineStack(gatelessApp, 'GatelessPipelineStack', {
+      env,
+      deployBucket: gatelessBuckets.deployBucket,
+      environments: { ...ENVIRONMENTS, dev },
+      imageRepositories: {},
+    })).toThrow("Environment 'dev' has no integrationTests config");
+  });
+});
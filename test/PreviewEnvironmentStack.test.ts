@@ -0,0 +1,57 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import { PreviewEnvironmentStack } from '../lib/stacks/PreviewEnvironmentStack';
+import { S3Stack } from '../lib/stacks/S3Stack';
+import { PREVIEW } from '../lib/config/previews';
+
+describe('PreviewEnvironmentStack', () => {
+  const app = new cdk.App();
+  const env = { account: PREVIEW.account, region: PREVIEW.region };
+  const bucketStack = new S3Stack(app, 'TestS3Stack', { env });
+  const networkStack = new cdk.Stack(app, 'TestNetworkStack', { env });
+  const vpc = new ec2.Vpc(networkStack, 'Vpc', { maxAzs: 1, natGateways: 0, subnetConfiguration: [{ name: 'Public', subnetType: ec2.SubnetType.PUBLIC }] });
+  const stack = new PreviewEnvironmentStack(app, 'TestPreviewEnvironmentStack', {
+    env,
+    previewId: 'beservice-pr42',
+    config: PREVIEW,
+    vpc,
+    imageRepositories: [],
+    deployBucket: bucketStack.deployBucket,
+  });
+  const template = Template.fromStack(stack);
+
+  test('tags the host with the preview environment, never a stage', () => {
+    template.hasResourceProperties('AWS::EC2::Instance', {
+      Tags: Match.arrayWith([{ Key: 'HealthEnv', Value: 'preview-beservice-pr42' }]),
+    });
+  });
+
+  test('runs in the shared preview VPC on the host\'s public IP, with no VPC or Elastic IP of its own', () => {
+    template.resourceCountIs('AWS::EC2::VPC', 0);
+    template.resourceCountIs('AWS::EC2::EIP', 0);
+    template.hasResourceProperties('AWS::Route53::RecordSet', {
+      ResourceRecords: [{ 'Fn::GetAtt': [Match.stringLikeRegexp('^Instance'), 'PublicIp'] }],
+    });
+  });
+
+  test('deploys through its own document with the preview site built in', () => {
+    const document = Object.values(template.findResources('AWS::SSM::Document'))
+      .find((resource) => resource.Properties.Name === 'Health-preview-beservice-pr42-Deploy')!;
+    // Commands naming the deploy bucket are Fn::Join tokens
+    const commands: string[] = document.Properties.Content.mainSteps[0].inputs.runCommand.map((command: unknown) => JSON.stringify(command));
+
+    expect(document.Properties.Content.parameters.releaseId.allowedPattern).toBe('^[A-Za-z0-9-]+$');
+    expect(commands[0]).toBe(JSON.stringify('cloud-init status --wait > /dev/null || true'));
+    expect(commands.some((command) => command.includes('/etc/nginx/conf.d/frontend.conf'))).toBe(true);
+    expect(commands.some((command) => command.includes('s3://$DEPLOY_BUCKET_NAME/nginx/'))).toBe(false);
+    expect(commands[commands.length - 1]).toContain('{{ releaseId }}');
+  });
+
+  test('issues its certificate without a health check', () => {
+    template.hasResourceProperties('AWS::SSM::Association', {
+      AssociationName: 'health-preview-beservice-pr42-certificate-bootstrap',
+    });
+    template.resourceCountIs('AWS::Route53::HealthCheck', 0);
+  });
+});
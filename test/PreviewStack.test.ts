@@ -0,0 +1,183 @@
+import * as cdk from 'aws-cdk-lib';
+import { Annotations, Match, Template } from 'aws-cdk-lib/assertions';
+import { PreviewStack } from '../lib/stacks/PreviewStack';
+import { EcrStack } from '../lib/stacks/EcrStack';
+import { S3Stack } from '../lib/stacks/S3Stack';
+import { PREVIEW } from '../lib/config/previews';
+import { ENVIRONMENTS } from '../lib/config/environments';
+import { SERVICES, imageServices } from '../lib/config/services';
+
+describe('PreviewStack', () => {
+  const app = new cdk.App();
+  const env = { account: '123456789012', region: 'us-east-1' };
+  const ecrStack = new EcrStack(app, 'TestEcrStack', { env, services: SERVICES, environments: ENVIRONMENTS });
+  const bucketStack = new S3Stack(app, 'TestS3Stack', { env });
+  const props = {
+    env,
+    config: { ...PREVIEW, trustedActorIds: ['1024025', '583231'] },
+    baseEnvironment: ENVIRONMENTS.dev,
+    deployBucket: bucketStack.deployBucket,
+    imageRepositories: ecrStack.repositories,
+    previewRepositories: ecrStack.previewRepositories,
+    githubConnectionArn: 'arn:aws:codeconnections:us-east-1:123456789012:connection/test',
+  };
+  const stack = new PreviewStack(app, 'TestPreviewStack', props);
+  const template = Template.fromStack(stack);
+
+  function policyStatements(): { Action: string | string[]; Resource: unknown; Condition?: unknown }[] {
+    return Object.values(template.findResources('AWS::IAM::Policy'))
+      .flatMap((policy) => policy.Properties.PolicyDocument.Statement);
+  }
+
+  function roleStatements(projectName: string): { Action: string | string[]; Resource: unknown; Condition?: unknown }[] {
+    const project = Object.values(template.findResources('AWS::CodeBuild::Project', { Properties: { Name: projectName } }))[0];
+    const role = project.Properties.ServiceRole['Fn::GetAtt'][0];
+    return Object.values(template.findResources('AWS::IAM::Policy'))
+      .filter((policy) => policy.Properties.Roles.some((ref: { Ref: string }) => ref.Ref === role))
+      .flatMap((policy) => policy.Properties.PolicyDocument.Statement);
+  }
+
+  test('builds previews only for pull requests from trusted authors against every image service', () => {
+    imageServices(SERVICES).forEach((service) => {
+      template.hasResourceProperties('AWS::CodeBuild::Project', {
+        Name: `${service.name}PreviewBuild`,
+        Source: Match.objectLike({ Location: Match.stringLikeRegexp(`/${service.repo}\\.git$`), ReportBuildStatus: false }),
+        Triggers: {
+          Webhook: true,
+          FilterGroups: [[
+            { Type: 'EVENT', Pattern: 'PULL_REQUEST_CREATED, PULL_REQUEST_UPDATED, PULL_REQUEST_REOPENED, PULL_REQUEST_CLOSED, PULL_REQUEST_MERGED' },
+            { Type: 'BASE_REF', Pattern: `refs/heads/${service.branch}` },
+            { Type: 'ACTOR_ACCOUNT_ID', Pattern: '^(1024025|583231)$' },
+          ]],
+        },
+      });
+    });
+  });
+
+  test('gives the pull request build no deploy permissions or status token', () => {
+    const statements = roleStatements('HealthBEServicePreviewBuild');
+    const actions = statements.flatMap((statement) => [statement.Action].flat());
+
+    expect(actions).toContain('ecr:PutImage');
+    ['sts:AssumeRole', 'iam:PassRole', 'cloudformation:DeleteStack', 'ssm:SendCommand', 'secretsmanager:GetSecretValue', 's3:GetObject*']
+      .forEach((action) => expect(actions).not.toContain(action));
+    const puts = statements.filter((statement) => [statement.Action].flat().includes('s3:PutObject'));
+    expect(puts.map((statement) => JSON.stringify(statement.Resource))).toEqual([
+      expect.stringContaining('/releases/preview-*/parts/HealthBEService.tar.gz'),
+      expect.stringContaining('/releases/preview-*/images/healthai'),
+    ]);
+    template.hasResourceProperties('AWS::CodeBuild::Project', {
+      Name: 'HealthBEServicePreviewBuild',
+      Environment: Match.objectLike({
+        EnvironmentVariables: Match.not(Match.arrayWith([Match.objectLike({ Name: 'GITHUB_STATUS_TOKEN' })])),
+      }),
+    });
+  });
+
+  test('deploys from this app once the pull request build finishes', () => {
+    const deploy = template.findResources('AWS::CodeBuild::Project', { Properties: { Name: 'HealthBEServicePreviewDeploy' } });
+    const build = template.findResources('AWS::CodeBuild::Project', { Properties: { Name: 'HealthBEServicePreviewBuild' } });
+
+    expect(Object.values(deploy)[0].Properties.Source.Location).toMatch(/\/HealthCDK\.git$/);
+    expect(Object.values(deploy)[0].Properties.Triggers).toBeUndefined();
+    template.hasResourceProperties('AWS::Events::Rule', {
+      EventPattern: {
+        'source': ['aws.codebuild'],
+        'detail-type': ['CodeBuild Build State Change'],
+        'detail': { 'project-name': [{ Ref: Object.keys(build)[0] }], 'build-status': ['SUCCEEDED', 'FAILED'] },
+      },
+      Targets: [Match.objectLike({
+        Arn: { 'Fn::GetAtt': [Object.keys(deploy)[0], 'Arn'] },
+        InputTransformer: Match.objectLike({ InputPathsMap: { 'detail-build-id': '$.detail.build-id' } }),
+      })],
+    });
+    expect(roleStatements('HealthBEServicePreviewDeploy')).toContainEqual(expect.objectContaining({
+      Action: 'codebuild:BatchGetBuilds',
+      Resource: { 'Fn::GetAtt': [Object.keys(build)[0], 'Arn'] },
+    }));
+  });
+
+  test('creates the preview projects after the source credential', () => {
+    const credential = Object.keys(template.findResources('AWS::CodeBuild::SourceCredential'))[0];
+    const previews = Object.values(template.findResources('AWS::CodeBuild::Project'))
+      .filter((project) => /Preview(Build|Deploy)$/.test(project.Properties.Name));
+
+    expect(previews).toHaveLength(imageServices(SERVICES).length * 2);
+    previews.forEach((project) => expect(project.DependsOn).toContain(credential));
+  });
+
+  test('creates no webhooks and warns without trusted authors', () => {
+    const openApp = new cdk.App();
+    const openEcr = new EcrStack(openApp, 'TestEcrStack', { env, services: SERVICES, environments: ENVIRONMENTS });
+    const openBuckets = new S3Stack(openApp, 'TestS3Stack', { env });
+    const open = new PreviewStack(openApp, 'TestPreviewStack', {
+      ...props,
+      config: PREVIEW,
+      deployBucket: openBuckets.deployBucket,
+      imageRepositories: openEcr.repositories,
+      previewRepositories: openEcr.previewRepositories,
+    });
+
+    Template.fromStack(open).hasResourceProperties('AWS::CodeBuild::Project', {
+      Name: 'HealthBEServicePreviewBuild',
+      Triggers: { Webhook: false },
+    });
+    Annotations.fromStack(open).hasWarning('*', Match.stringLikeRegexp('No trustedActorIds'));
+  });
+
+  test('holds one public VPC for every preview host', () => {
+    template.resourceCountIs('AWS::EC2::VPC', 1);
+    template.resourceCountIs('AWS::EC2::NatGateway', 0);
+  });
+
+  test('reads GitHub through the pipeline connection', () => {
+    template.hasResourceProperties('AWS::CodeBuild::SourceCredential', {
+      AuthType: 'CODECONNECTIONS',
+      ServerType: 'GITHUB',
+      Token: props.githubConnectionArn,
+    });
+  });
+
+  test('sends commands only to preview hosts through preview documents', () => {
+    const sendCommand = policyStatements().filter((statement) => statement.Action === 'ssm:SendCommand');
+
+    expect(sendCommand.length).toBeGreaterThan(0);
+    sendCommand.forEach((statement) => {
+      const resource = JSON.stringify(statement.Resource);
+      if (resource.includes(':document/')) {
+        expect(resource).toContain(':document/Health-preview-*-Deploy');
+      } else {
+        expect(statement.Condition).toEqual({ StringLike: { 'ssm:resourceTag/HealthEnv': 'preview-*' } });
+      }
+    });
+  });
+
+  test('deletes only preview stacks', () => {
+    const deletes = policyStatements().filter((statement) => [statement.Action].flat().includes('cloudformation:DeleteStack'));
+
+    expect(deletes.length).toBeGreaterThan(0);
+    deletes.forEach((statement) => expect(JSON.stringify(statement.Resource)).toContain(':stack/HealthPreview-*/*'));
+  });
+
+  test('reaps expired previews every hour', () => {
+    const rule = Object.values(template.findResources('AWS::Events::Rule', { Properties: { ScheduleExpression: Match.anyValue() } }))[0];
+    const reaper = template.findResources('AWS::CodeBuild::Project', { Properties: { Name: 'PreviewReaper' } });
+
+    expect(rule.Properties.ScheduleExpression).toBe('rate(1 hour)');
+    expect(JSON.stringify(rule.Properties.Targets)).toContain(Object.keys(reaper)[0]);
+  });
+
+  test('requires integration tests on the base environment', () => {
+    const devApp = new cdk.App();
+    const devEcr = new EcrStack(devApp, 'TestEcrStack', { env, services: SERVICES, environments: ENVIRONMENTS });
+    const devBuckets = new S3Stack(devApp, 'TestS3Stack', { env });
+
+    expect(() => new PreviewStack(devApp, 'TestPreviewStack', {
+      ...props,
+      baseEnvironment: ENVIRONMENTS.staging,
+      deployBucket: devBuckets.deployBucket,
+      imageRepositories: devEcr.repositories,
+      previewRepositories: devEcr.previewRepositories,
+    })).toThrow("Environment 'staging' has no integrationTests config");
+  });
+});
@@ -0,0 +1,38 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { SecretsStack } from '../lib/stacks/SecretsStack';
+import { APP_SECRETS } from '../lib/config/secrets';
+
+describe('SecretsStack', () => {
+  const env = { account: '123456789012', region: 'us-east-1' };
+
+  test('creates every app secret under the stage prefix with a generated value', () => {
+    const template = Template.fromStack(new SecretsStack(new cdk.App(), 'TestSecretsStack', { env, stage: 'dev', secrets: APP_SECRETS }));
+
+    template.resourceCountIs('AWS::SecretsManager::Secret', APP_SECRETS.length);
+    template.hasResourceProperties('AWS::SecretsManager::Secret', {
+      Name: 'health/dev/server-api-key',
+      GenerateSecretString: { PasswordLength: 32, ExcludePunctuation: true },
+    });
+    template.resourceCountIs('AWS::SecretsManager::RotationSchedule', 0);
+    template.resourceCountIs('AWS::Lambda::Function', 0);
+  });
+
+  test('adds one shared rotation function for secrets that rotate', () => {
+    const template = Template.fromStack(new SecretsStack(new cdk.App(), 'TestSecretsStack', {
+      env,
+      stage: 'prod',
+      secrets: [
+        { name: 'a', envVar: 'A', description: 'a', rotateAfterDays: 30 },
+        { name: 'b', envVar: 'B', description: 'b', rotateAfterDays: 90 },
+      ],
+    }));
+
+    template.resourceCountIs('AWS::Lambda::Function', 1);
+    template.resourceCountIs('AWS::SecretsManager::RotationSchedule', 2);
+    template.hasResourceProperties('AWS::SecretsManager::RotationSchedule', {
+      RotationRules: { ScheduleExpression: 'rate(30 days)' },
+      RotationLambdaARN: { 'Fn::GetAtt': [Match.stringLikeRegexp('RotateRandomSecret'), 'Arn'] },
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { buildSite } from '../lib/nginx/routes';
+import { SERVICES, getService } from '../lib/config/services';
+import { rateLimitRules, routeTargets, wafRateLimit } from '../lib/ecs/routing';
+import { ecsImageParameterName, renderEcsDeployScript } from '../lib/ecs/render';
+
+describe('ECS routing', () => {
+  const site = buildSite('aegiscan.app');
+
+  test('maps each nginx route to the image service on its upstream port', () => {
+    const targets = routeTargets(site, SERVICES);
+
+    expect(targets.map(({ service, pathPatterns }) => [service.name, pathPatterns])).toEqual([
+      ['HealthFEService', undefined],
+      ['HealthBEService', ['/v1/*']],
+    ]);
+  });
+
+  test('fails on a route no image service serves', () => {
+    const broken = { ...site, routes: [{ description: 'Nobody', pathPrefix: '/x/', upstreamPort: 9999 }] };
+
+    expect(() => routeTargets(broken, SERVICES)).toThrow('No image service serves port 9999');
+  });
+
+  test('converts nginx rates to requests per minute, never below the WAF minimum', () => {
+    expect(wafRateLimit('5r/s')).toBe(300);
+    expect(wafRateLimit('30r/m')).toBe(30);
+    expect(wafRateLimit('1r/m')).toBe(10);
+    expect(() => wafRateLimit('5r/h')).toThrow("Unsupported nginx rate '5r/h'");
+  });
+
+  test('only zones some route uses become rules', () => {
+    const unused = { ...site, rateLimitZones: [...site.rateLimitZones, { name: 'unused', rate: '1r/s', size: '1m' }] };
+
+    expect(rateLimitRules(unused).map((rule) => rule.name)).toEqual(['api_limit']);
+  });
+});
+
+describe('ECS deploy script', () => {
+  const script = renderEcsDeployScript('prod', SERVICES);
+
+  test('rolls every image service onto the digest recorded for the release', () => {
+    expect(script).toContain('CLUSTER=health-prod');
+    expect(script).toContain('deploy health-prod-healthai healthai releases/$RELEASE_ID/images/healthai');
+    expect(script).toContain('deploy health-prod-healthpy healthpy releases/$RELEASE_ID/images/healthpy');
+    expect(script).toContain('aws ecs register-task-definition --cli-input-json');
+  });
+
+  test('records the image of each service that settled on the release for stack deploys', () => {
+    expect(ecsImageParameterName('prod', getService('HealthInferenceService'))).toBe('/health/prod/ecs/healthpy/image');
+    expect(script).toContain('PARAMETERS[health-prod-healthpy]=/health/prod/ecs/healthpy/image');
+    expect(script).toMatch(/echo "✅ \$SERVICE is running release \$RELEASE_ID"\n\s+aws ssm put-parameter --name "\$\{PARAMETERS\[\$SERVICE\]\}" --value "\$\{IMAGES\[\$SERVICE\]\}"/);
+  });
+
+  test('fails when a service did not end up on the new revision', () => {
+    expect(script).toContain('if [ "$RUNNING" = "${REVISIONS[$SERVICE]}" ] && [ "$STATE" = "COMPLETED" ]; then');
+    expect(script).toMatch(/exit "\$FAILED"\n$/);
+  });
+});
@@ -0,0 +1,94 @@
+import { ServiceDefinition } from '../lib/config/services';
+import { HEALTH_GATE_DEADLINE_SECONDS, renderHealthGateScript, renderSsmWaitScript, renderStartStoppedHostsScript } from '../lib/healthgate/render';
+
+describe('health gate script', () => {
+  const services: ServiceDefinition[] = [
+    { name: 'HealthDAO', repo: 'HealthDAO', branch: 'main' },
+    { name: 'HealthBEService', containerName: 'healthai', readinessProbe: { type: 'http', path: '/v1/health', expectedStatus: 200 } },
+    { name: 'HealthInferenceService', containerName: 'healthpy' },
+    {
+      name: 'Cassandra',
+      containerName: 'cassandra',
+      readinessProbe: { type: 'tcp', port: 9042, timing: { maxAttempts: 20, timeoutSeconds: 3 } },
+    },
+  ];
+  const script = renderHealthGateScript(services, 'dev.aegiscan.app');
+
+  test('probes HTTP services through nginx on the environment domain', () => {
+    expect(script).toContain('DOMAIN=dev.aegiscan.app');
+    expect(script).toContain('--resolve "$DOMAIN:443:127.0.0.1" "https://$DOMAIN$1"');
+    expect(script).toContain('wait_for HealthBEService healthai 10 10 60 probe_http /v1/health 200 5');
+  });
+
+  test('applies per-probe timing overrides over the defaults', () => {
+    expect(script).toContain('wait_for Cassandra cassandra 20 10 60 probe_tcp 9042 3');
+  });
+
+  test('falls back to an uptime check for containers without a probe', () => {
+    expect(script).toContain('wait_for HealthInferenceService healthpy 10 10 60 probe_uptime healthpy 30');
+  });
+
+  test('gives up on every service once the gate deadline passes', () => {
+    expect(script).toContain(`DEADLINE=$(( $(date +%s) + ${HEALTH_GATE_DEADLINE_SECONDS} ))`);
+    expect(script).toContain('if [ "$attempt" -lt "$attempts" ] && [ $(( $(date +%s) + delay )) -gt "$DEADLINE" ]; then');
+    expect(renderHealthGateScript(services, 'dev.aegiscan.app', 120)).toContain('gate deadline of 120s reached');
+  });
+
+  test('skips services without a container', () => {
+    expect(script).not.toContain('HealthDAO');
+  });
+
+  test('prints a report and fails when any service failed', () => {
+    expect(script).toContain('echo "==== HEALTH GATE REPORT ===="');
+    expect(script).toMatch(/if \[ "\$FAILED" -ne 0 \]; then\n(.*\n)*\s+exit 1/);
+  });
+});
+
+describe('ssm wait script', () => {
+  const script = renderSsmWaitScript(2100, 20);
+
+  test('keeps polling only while the invocation is pending', () => {
+    expect(script).toContain('Pending|InProgress|Delayed|Cancelling) PENDING=1 ;;');
+    expect(script).toContain('sleep 20');
+    expect(script).toContain('DEADLINE=$(( $(date +%s) + 2100 ))');
+  });
+
+  test('prints stdout and stderr and only succeeds on Success', () => {
+    expect(script).toContain('--query StandardOutputContent');
+    expect(script).toContain('--query StandardErrorContent');
+    expect(script).toContain('[ "$STATUS" = "Success" ] || RESULT=1');
+  });
+
+  test('fails fast when the command targets no instance', () => {
+    expect(script).toContain('matched no instances');
+  });
+});
+
+describe('start stopped hosts script', () => {
+  const script = renderStartStoppedHostsScript(600);
+
+  test('starts only stopped hosts carrying the environment tag', () => {
+    expect(script).toContain('"Name=tag:HealthEnv,Values=$ENV_NAME" "Name=instance-state-name,Values=stopped"');
+    expect(script).toContain('aws ec2 start-instances --instance-ids $STOPPED');
+  });
+
+  test('does nothing when every host is already up', () => {
+    expect(script).toMatch(/if \[ -z "\$STOPPED" \]; then\n(.*\n)*?\s+exit 0/);
+  });
+
+  test('lets the environment\'s Auto Scaling groups replace unhealthy hosts again once started', () => {
+    expect(script).toContain('--scaling-processes HealthCheck ReplaceUnhealthy');
+    expect(script.indexOf('resume-processes')).toBeGreaterThan(script.indexOf('wait instance-running'));
+  });
+
+  test('unmutes the environment\'s alarms once its hosts are started', () => {
+    expect(script).toContain('--resource-type-filters cloudwatch:alarm --tag-filters "Key=HealthEnv,Values=$ENV_NAME"');
+    expect(script).toContain('aws cloudwatch enable-alarm-actions --alarm-names $(for ARN in $ALARMS; do echo "${ARN##*:alarm:}"; done)');
+    expect(script.indexOf('enable-alarm-actions')).toBeGreaterThan(script.indexOf('wait instance-running'));
+  });
+
+  test('waits for SSM to see a started host before the deploy sends its command', () => {
+    expect(script).toContain('--query "InstanceInformationList[0].PingStatus" --output text)" = "Online" ]');
+    expect(script).toContain('DEADLINE=$(( $(date +%s) + 600 ))');
+  });
+});
@@ -0,0 +1,91 @@
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { pathToFileURL } from 'url';
+
+const SCHEDULE_MODULE = path.join(__dirname, '../lambda/instance-scheduler/schedule.mjs');
+
+interface Run {
+  result?: { action: string; envName: string; changed: string[]; skipped: string[] };
+  error?: string;
+  calls: unknown[][];
+}
+
+interface Hosts {
+  instances: { InstanceId: string; Tags?: { Key: string; Value: string }[] }[];
+  // Error message the start waiter fails with, as when the hosts take longer than its maximum wait
+  waitError?: string;
+}
+
+// The Lambda is an ES module, so the schedule runs in a separate node process
+// against stub hosts that record every call made to them.
+function runSchedule(event: Record<string, unknown>, hosts: Hosts): Run {
+  const harness = `
+    import { applySchedule } from ${JSON.stringify(pathToFileURL(SCHEDULE_MODULE).href)};
+    const hosts = ${JSON.stringify(hosts)};
+    // The result goes to stdout, so the schedule's own logging goes to stderr
+    console.log = console.error;
+    const calls = [];
+    const record = (name, result) => async (...args) => { calls.push([name, ...args]); return result?.(); };
+    const run = applySchedule(${JSON.stringify(event)}, {
+      describeInstances: record('describeInstances', () => hosts.instances),
+      stopInstances: record('stopInstances'),
+      startInstances: record('startInstances'),
+      waitUntilRunning: record('waitUntilRunning', () => { if (hosts.waitError) throw new Error(hosts.waitError); }),
+      setGroupProcesses: record('setGroupProcesses'),
+      setAlarmActions: record('setAlarmActions'),
+    }, { skipTag: 'HealthScheduleSkip', now: new Date('2026-10-16T20:00:00Z') });
+    const outcome = await run.then((result) => ({ result }), (error) => ({ error: error.message }));
+    process.stdout.write(JSON.stringify({ ...outcome, calls }));
+  `;
+  const result = spawnSync(process.execPath, ['--input-type=module', '-e', harness], { encoding: 'utf8', timeout: 30000 });
+  if (result.status !== 0) {
+    throw new Error(`Schedule run failed: ${result.stderr}`);
+  }
+  return JSON.parse(result.stdout);
+}
+
+describe('instance scheduler', () => {
+  const event = { envName: 'dev', timeZone: 'America/New_York', alarmNames: ['health-dev-cpu'] };
+  const instances = [
+    { InstanceId: 'i-0a1b2c3d4e5f60718' },
+    { InstanceId: 'i-0f1e2d3c4b5a69788', Tags: [{ Key: 'HealthScheduleSkip', Value: '2026-10-16' }] },
+  ];
+
+  test('mutes alarms and health checks before stopping hosts not skipped today', () => {
+    const { result, calls } = runSchedule({ ...event, action: 'stop' }, { instances });
+
+    expect(result).toEqual({ action: 'stop', envName: 'dev', changed: ['i-0a1b2c3d4e5f60718'], skipped: ['i-0f1e2d3c4b5a69788'] });
+    expect(calls).toEqual([
+      ['describeInstances', 'dev', 'running'],
+      ['setAlarmActions', ['health-dev-cpu'], false],
+      ['setGroupProcesses', 'dev', false],
+      ['stopInstances', ['i-0a1b2c3d4e5f60718']],
+    ]);
+  });
+
+  test('resumes health checks and alarms once started hosts are running', () => {
+    const { result, calls } = runSchedule({ ...event, action: 'start' }, { instances });
+
+    expect(result?.changed).toEqual(['i-0a1b2c3d4e5f60718']);
+    expect(calls.slice(1)).toEqual([
+      ['startInstances', ['i-0a1b2c3d4e5f60718']],
+      ['waitUntilRunning', ['i-0a1b2c3d4e5f60718']],
+      ['setGroupProcesses', 'dev', true],
+      ['setAlarmActions', ['health-dev-cpu'], true],
+    ]);
+  });
+
+  test('still resumes health checks and alarms when the start waiter gives up', () => {
+    const { error, calls } = runSchedule({ ...event, action: 'start' }, { instances, waitError: 'Exceeded maximum wait time' });
+
+    expect(error).toBe('Exceeded maximum wait time');
+    expect(calls.slice(-2)).toEqual([
+      ['setGroupProcesses', 'dev', true],
+      ['setAlarmActions', ['health-dev-cpu'], true],
+    ]);
+  });
+
+  test('rejects unknown actions', () => {
+    expect(runSchedule({ ...event, action: 'reboot' }, { instances }).error).toBe('Unknown scheduler action reboot');
+  });
+});
@@ -0,0 +1,29 @@
+import { renderIntegrationTestScript } from '../lib/integration/render';
+
+describe('integration test script', () => {
+  const script = renderIntegrationTestScript(['org.dev.HealthDevBEIntegrationTestSuite', 'org.dev.HealthDevInferenceSuite']);
+
+  test('runs every configured suite from the checkout it is started in', () => {
+    expect(script).toContain('./gradlew test --no-daemon --continue --tests org.dev.HealthDevBEIntegrationTestSuite --tests org.dev.HealthDevInferenceSuite');
+    expect(script).not.toContain('git clone');
+  });
+
+  test('requires a base URL to run against', () => {
+    expect(script).toContain(': "${HEALTH_BASE_URL:?HEALTH_BASE_URL must be set}"');
+  });
+
+  test('summarizes suites and failed cases from the JUnit results', () => {
+    expect(script).toContain('RESULTS_DIR=build/test-results/test');
+    expect(script).toContain('echo "==== INTEGRATION TEST REPORT ===="');
+    expect(script).toContain('/<(failure|error) / { printf "  FAIL %s');
+  });
+
+  test('fails when Gradle failed or left no results', () => {
+    expect(script).toMatch(/if \[ \$\{#RESULTS\[@\]\} -eq 0 \]; then\n(.*\n)*?\s+exit 1/);
+    expect(script).toMatch(/if \[ "\$STATUS" -ne 0 \]; then\n(.*\n)*?\s+exit "\$STATUS"/);
+  });
+
+  test('rejects an empty suite list', () => {
+    expect(() => renderIntegrationTestScript([])).toThrow('At least one integration test suite is required');
+  });
+});
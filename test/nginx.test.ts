@@ -0,0 +1,74 @@
+import { buildSite, NginxSite } from '../lib/nginx/routes';
+import { renderBootstrapConfig, renderRateLimitsConfig, renderSiteConfig } from '../lib/nginx/render';
+import { renderCertificateBootstrapScript } from '../lib/nginx/certbot';
+
+describe('nginx rendering', () => {
+  const site = buildSite('dev.aegiscan.app');
+
+  test('bootstrap config serves the certbot webroot and redirects to https', () => {
+    const conf = renderBootstrapConfig(site);
+
+    expect(conf).toContain('server_name dev.aegiscan.app;');
+    expect(conf).toContain('root /var/www/certbot;');
+    expect(conf).not.toContain('alias');
+    expect(conf).toContain('return 301 https://$host$request_uri;');
+    expect(conf).not.toContain('listen 443');
+  });
+
+  test('site config uses the same challenge location as the bootstrap config', () => {
+    expect(renderSiteConfig(site)).toContain(renderBootstrapConfig(site));
+  });
+
+  test('site config renders TLS server and one location per route', () => {
+    const conf = renderSiteConfig(site);
+
+    expect(conf).toContain('listen 443 ssl;');
+    expect(conf).toContain('client_max_body_size 20M;');
+    expect(conf).toContain('ssl_certificate /etc/letsencrypt/live/dev.aegiscan.app/fullchain.pem;');
+    expect(conf).toContain('ssl_certificate_key /etc/letsencrypt/live/dev.aegiscan.app/privkey.pem;');
+    expect(conf).toMatch(/location \/ \{\n\s+proxy_pass http:\/\/127\.0\.0\.1:5173;/);
+    expect(conf).toMatch(/location \/v1\/ \{\n\s+limit_req zone=api_limit burst=5 nodelay;\n\s+proxy_pass http:\/\/127\.0\.0\.1:8080;/);
+  });
+
+  test('server name follows the environment', () => {
+    const conf = renderSiteConfig(buildSite('staging.aegiscan.app'));
+
+    expect(conf).toContain('server_name staging.aegiscan.app;');
+    expect(conf).not.toContain('dev.aegiscan.app');
+  });
+
+  test('rate limit config declares every zone', () => {
+    const conf = renderRateLimitsConfig(site);
+
+    expect(conf).toContain('limit_req_zone $binary_remote_addr zone=api_limit:10m rate=5r/s;');
+    expect(conf).toContain('limit_req_status 429;');
+  });
+
+  test('per-route body size overrides are rendered inside the location', () => {
+    const custom: NginxSite = {
+      ...site,
+      routes: [{ description: 'Upload Route', pathPrefix: '/upload/', upstreamPort: 8000, clientMaxBodySize: '100M' }],
+    };
+
+    expect(renderSiteConfig(custom)).toMatch(/location \/upload\/ \{\n\s+client_max_body_size 100M;/);
+  });
+
+  test('rejects routes that reference an unknown rate limit zone', () => {
+    const broken: NginxSite = {
+      ...site,
+      routes: [{ description: 'BE Route', pathPrefix: '/v1/', upstreamPort: 8080, rateLimitZone: 'missing', burst: 5 }],
+    };
+
+    expect(() => renderSiteConfig(broken)).toThrow(/unknown rate limit zone 'missing'/);
+  });
+
+  test('certificate bootstrap only issues a missing certificate and installs one renewal entry', () => {
+    const script = renderCertificateBootstrapScript('dev.aegiscan.app');
+
+    expect(script).toContain('if [ -f "/etc/letsencrypt/live/$DOMAIN/fullchain.pem" ]; then');
+    expect(script).toContain('certbot certonly --webroot -w "$WEBROOT" -d "$DOMAIN"');
+    expect(script).toContain('grep -v "certbot renew"');
+    expect(script).toContain('cat > /etc/cron.d/certbot-renew');
+    expect(script).not.toMatch(/echo .*\| crontab -/);
+  });
+});
@@ -0,0 +1,126 @@
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { pathToFileURL } from 'url';
+
+const DIGEST_MODULE = path.join(__dirname, '../lambda/pipeline-digest/digest.mjs');
+const FIXTURES = path.join(__dirname, 'fixtures/pipeline-digest');
+
+interface Digest {
+  subject: string;
+  text: string;
+  chat: { version: string; source: string; content: { textType: string; title: string; description: string; nextSteps?: string[] } };
+}
+
+// The Lambda is an ES module, so the digest is built in a separate node process
+// from a recorded event, with the CodeBuild, Logs and SSM responses replayed from the fixture.
+function digestFor(fixture: string): { digest: Digest; calls: unknown[][] } {
+  const harness = `
+    import { readFileSync } from 'node:fs';
+    import { buildDigest } from ${JSON.stringify(pathToFileURL(DIGEST_MODULE).href)};
+    const fixture = JSON.parse(readFileSync(${JSON.stringify(path.join(FIXTURES, `${fixture}.json`))}, 'utf8'));
+    const calls = [];
+    const digest = await buildDigest(fixture.event, {
+      getBuild: async (...args) => { calls.push(['getBuild', ...args]); return fixture.build; },
+      getLogLines: async (...args) => { calls.push(['getLogLines', ...args]); return fixture.logStreams?.[args[1]] ?? fixture.logLines; },
+      getCommandInvocations: async (...args) => { calls.push(['getCommandInvocations', ...args]); return fixture.commandInvocations[args[0]]; },
+    });
+    process.stdout.write(JSON.stringify({ digest, calls }));
+  `;
+  const result = spawnSync(process.execPath, ['--input-type=module', '-e', harness], { encoding: 'utf8', timeout: 30000 });
+  if (result.status !== 0) {
+    throw new Error(`Digest for ${fixture} failed: ${result.stderr}`);
+  }
+  return JSON.parse(result.stdout);
+}
+
+describe('pipeline failure digest', () => {
+  describe('failed deploy', () => {
+    const { digest, calls } = digestFor('deploy-failed');
+
+    test('names the pipeline, stage and action, with a link to the execution', () => {
+      expect(digest.subject).toBe('HealthServicePipeline failed at DeployToDev / Deploy_DockerCompose');
+      expect(digest.text).toContain('Execution: 4d3c1b2a-9e8f-4a6b-8c7d-0e1f2a3b4c5d');
+      expect(digest.text).toContain(
+        'Console: https://us-east-1.console.aws.amazon.com/codesuite/codepipeline/pipelines/HealthServicePipeline/executions/4d3c1b2a-9e8f-4a6b-8c7d-0e1f2a3b4c5d/timeline?region=us-east-1',
+      );
+      expect(digest.text).toContain('Build logs: https://console.aws.amazon.com/cloudwatch/home?region=us-east-1#logsV2:log-groups/log-group/$252Faws$252Fcodebuild$252FDockerComposeDeployDev');
+    });
+
+    test('follows the build log to the SSM command it sent', () => {
+      expect(calls).toEqual([
+        ['getBuild', 'DockerComposeDeployDev:1f2e3d4c-5b6a-4789-8a9b-0c1d2e3f4a5b'],
+        ['getLogLines', '/aws/codebuild/DockerComposeDeployDev', '1f2e3d4c-5b6a-4789-8a9b-0c1d2e3f4a5b'],
+        ['getCommandInvocations', '8f2e6d4c-1b3a-4c5d-9e7f-a1b2c3d4e5f6'],
+      ]);
+    });
+
+    test('shows the last 30 lines of each instance output rather than the build log', () => {
+      expect(digest.text).toContain('==== i-0a1b2c3d4e5f60718: Failed ====');
+      expect(digest.text).toContain('HealthBEService          FAIL  curl: (7) Failed to connect to 127.0.0.1 port 8080 (restarts: 4)');
+      expect(digest.text).toContain('current -> 0a9b8c7d-6e5f-4a3b-2c1d-0e9f8a7b6c5d');
+      expect(digest.text).toContain('[HealthBEService] attempt 4/10');
+      expect(digest.text).not.toContain('[HealthBEService] attempt 3/10');
+      expect(digest.text).toContain('---- stderr (last 30 lines) ----\nfailed to run commands: exit status 1');
+      expect(digest.text).not.toContain('Running command bash start-stopped-hosts.sh');
+    });
+
+    test('sends Chatbot the tail of the report and a link to the build logs', () => {
+      expect(digest.chat).toMatchObject({
+        version: '1.0',
+        source: 'custom',
+        content: {
+          textType: 'client-markdown',
+          title: 'HealthServicePipeline failed at DeployToDev / Deploy_DockerCompose',
+          nextSteps: [expect.stringMatching(/^<https:\/\/console\.aws\.amazon\.com\/cloudwatch\/.*\|Build logs>$/)],
+        },
+      });
+      expect(digest.chat.content.description).toContain('==== HEALTH GATE REPORT ====');
+      expect(digest.chat.content.description.split('\n').length).toBeLessThanOrEqual(35);
+    });
+  });
+
+  describe('failed deploy with truncated command output', () => {
+    const { digest, calls } = digestFor('deploy-truncated');
+    const streams = '3c9a7e51-2d4b-4f68-a0e1-5b7c9d2f4e6a/i-0a1b2c3d4e5f60718/aws-runShellScript';
+
+    test('reads the full output from the command log group', () => {
+      expect(calls.slice(2)).toEqual([
+        ['getCommandInvocations', '3c9a7e51-2d4b-4f68-a0e1-5b7c9d2f4e6a'],
+        ['getLogLines', '/health/deploy-commands', `${streams}/stdout`],
+        ['getLogLines', '/health/deploy-commands', `${streams}/stderr`],
+      ]);
+    });
+
+    test('shows the tail of the full output rather than the truncated inline output', () => {
+      expect(digest.text).not.toContain('---Output truncated---');
+      expect(digest.text).toContain('HealthBEService          FAIL  curl: (22) The requested URL returned error: 503 (restarts: 0)');
+      expect(digest.text).toContain('current -> 4d3c1b2a-9e8f-4a6b-8c7d-0e1f2a3b4c5d');
+      expect(digest.text).toContain('---- stderr (last 30 lines) ----\nfailed to run commands: exit status 1');
+    });
+  });
+
+  describe('failed build', () => {
+    const { digest, calls } = digestFor('build-failed');
+
+    test('falls back to the tail of the build log when no SSM command was sent', () => {
+      expect(digest.subject).toBe('HealthServicePipeline failed at Package / Build_HealthBEService');
+      expect(calls.map(([source]) => source)).toEqual(['getBuild', 'getLogLines']);
+      expect(digest.text).toContain('---- build log (last 30 lines) ----');
+      expect(digest.text).toContain('ScanController.java:88: error: cannot find symbol');
+      expect(digest.text).not.toContain('> Task :compileJava');
+      expect(digest.text).toContain('Summary: Build terminated with state: FAILED. Phase: BUILD');
+    });
+  });
+
+  describe('rejected approval', () => {
+    const { digest, calls } = digestFor('approval-rejected');
+
+    test('reports the summary without reading any build', () => {
+      expect(calls).toEqual([]);
+      expect(digest.subject).toBe('HealthServicePipeline failed at ApproveProd / Approve_Prod_Release');
+      expect(digest.text).toContain('Summary: Rejected: staging shows elevated 5xx since the release');
+      expect(digest.text).not.toContain('Build logs:');
+      expect(digest.chat.content.nextSteps).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import * as cdk from 'aws-cdk-lib';
+import { PREVIEW, previewDeployDocumentName, previewDomain, previewId, resolvePreview } from '../lib/config/previews';
+import { SERVICES, getService } from '../lib/config/services';
+import { renderPreviewBuildScript, renderPreviewDeployScript, renderPreviewReaperScript } from '../lib/preview/render';
+
+describe('preview naming', () => {
+  test('derives the id, domain and deploy document from the service and pull request', () => {
+    const id = previewId(getService('HealthBEService'), 42);
+
+    expect(id).toBe('beservice-pr42');
+    expect(previewDomain(id)).toBe('beservice-pr42.preview.aegiscan.app');
+    expect(previewDeployDocumentName(id)).toBe('Health-preview-beservice-pr42-Deploy');
+  });
+
+  test('reads the preview id from context', () => {
+    const app = new cdk.App({ context: { preview: 'beservice-pr42' } });
+    expect(resolvePreview(app.node)).toBe('beservice-pr42');
+    expect(resolvePreview(new cdk.App().node)).toBeUndefined();
+  });
+
+  test('rejects ids that cannot be a stack name and subdomain', () => {
+    const app = new cdk.App({ context: { preview: 'BE_service;rm' } });
+    expect(() => resolvePreview(app.node)).toThrow("Invalid preview id 'BE_service;rm'");
+  });
+});
+
+describe('preview build script', () => {
+  const script = renderPreviewBuildScript({ service: getService('HealthBEService'), services: SERVICES, config: PREVIEW });
+
+  test('builds nothing when the pull request closes', () => {
+    expect(script).toMatch(/PULL_REQUEST_CLOSED\|PULL_REQUEST_MERGED\)\n.*\n\s+exit 0/);
+    expect(script).not.toContain('aws cloudformation');
+  });
+
+  test('pushes preview images to the preview repository without moving the latest tag', () => {
+    expect(script).toContain('export RELEASE_ID="preview-$PREVIEW_ID-${COMMIT:0:7}"');
+    expect(script).toContain('--cache-from $CACHE_REPOSITORY_URI:latest');
+    expect(script).toContain('docker push $IMAGE_REPOSITORY_URI:$RELEASE_ID');
+    expect(script).not.toContain('docker push $IMAGE_REPOSITORY_URI:latest');
+  });
+
+  test('neither deploys nor posts statuses', () => {
+    expect(script).not.toContain('cdk deploy');
+    expect(script).not.toContain('GITHUB_STATUS_TOKEN');
+  });
+});
+
+describe('preview deploy script', () => {
+  const script = renderPreviewDeployScript({ service: getService('HealthBEService'), services: SERVICES, config: PREVIEW });
+
+  test('names the preview from the image build record', () => {
+    expect(script).toContain('aws codebuild batch-get-builds --ids "${PREVIEW_BUILD_ARN##*/}"');
+    expect(script).toContain('[[ "$PR_NUMBER" =~ ^[0-9]+$ && "$COMMIT" =~ ^[0-9a-f]{40}$ ]]');
+  });
+
+  test('deletes the preview stack once the pull request is closed', () => {
+    expect(script).toContain('https://api.github.com/repos/S-Ungurean/HealthBEService/pulls/$PR_NUMBER');
+    expect(script).toMatch(/if \[ "\$PR_STATE" = "closed" \]; then\n(.*\n)*?\s+aws cloudformation delete-stack --stack-name "\$STACK" --role-arn "\$CFN_EXEC_ROLE_ARN"\n(.*\n)*?\s+exit 0/);
+  });
+
+  test('pins the image by the digest ECR holds for the preview tag', () => {
+    expect(script).toContain('aws ecr describe-images --repository-name "${IMAGE_REPOSITORY_URI#*/}" --image-ids imageTag="$RELEASE_ID"');
+    expect(script).toContain('[[ "$DIGEST" =~ ^sha256:[0-9a-f]{64}$ ]]');
+    expect(script).toContain('s|image: .*|image: $IMAGE_REPOSITORY_URI@$DIGEST|');
+    expect(script).not.toContain('/images/');
+  });
+
+  test('takes only the service checkout from the image build', () => {
+    expect(script).toContain('releases/$RELEASE_ID/parts/HealthBEService.tar.gz" - | tar -xz --no-same-owner -C /tmp/preview/workspace HealthBEService');
+  });
+
+  test('deploys only the preview stack and pushes its expiry back', () => {
+    expect(script).toContain('npm install --no-audit --no-fund');
+    expect(script).toContain('npx cdk deploy "$STACK" --exclusively --require-approval never -c preview="$PREVIEW_ID" --tags "HealthPreviewExpiresAt=$EXPIRES_AT"');
+    expect(script).toContain('EXPIRES_AT=$(date -u -d "+72 hours"');
+  });
+
+  test('deploys through the preview document onto preview hosts only', () => {
+    expect(script).toContain('aws ssm send-command --document-name "Health-preview-$PREVIEW_ID-Deploy" --targets "Key=tag:HealthEnv,Values=$PREVIEW_ENV"');
+  });
+
+  test('posts the preview URL once the integration tests pass', () => {
+    expect(script).toContain('HEALTH_BASE_URL="$PREVIEW_URL" bash /tmp/run-integration-tests.sh');
+    expect(script.trimEnd().split('\n').slice(-2)[0]).toBe('post_status success "Preview $PREVIEW_ID is live" "$PREVIEW_URL"');
+    expect(script).toContain("trap 'post_status failure");
+  });
+});
+
+describe('preview reaper script', () => {
+  const script = renderPreviewReaperScript();
+
+  test('deletes only tagged preview stacks past their expiry', () => {
+    expect(script).toContain("starts_with(StackName, 'HealthPreview-')");
+    expect(script).toContain("Tags[?Key=='HealthPreviewExpiresAt']");
+    expect(script).toMatch(/if \[ "\$EXPIRES" = "None" \]; then\n(.*\n)*?\s+continue/);
+    expect(script).toContain('aws cloudformation delete-stack --stack-name "$STACK" --role-arn "$CFN_EXEC_ROLE_ARN"');
+  });
+});
@@ -0,0 +1,77 @@
+import { installScriptCommand } from '../lib/pipeline/scripts';
+import { HEALTH_GATE_DEADLINE_SECONDS } from '../lib/healthgate/render';
+import { HEALTH_GATE_PATH, RELEASE_START_SECONDS, SECRETS_ENV_FILE, releaseArtifactKey, releaseTimeoutSeconds, renderReleaseScript } from '../lib/release/render';
+
+describe('release script', () => {
+  const script = renderReleaseScript(5);
+
+  test('downloads the artifact keyed by release id', () => {
+    expect(releaseArtifactKey('abc-123')).toBe('releases/abc-123/docker_workspace.tar.gz');
+    expect(script).toContain('aws s3 cp "s3://$BUCKET/releases/$RELEASE_ID/docker_workspace.tar.gz"');
+  });
+
+  test('points current at the release before starting it', () => {
+    expect(script).toContain('ln -sfn "$ROOT/$1" "$CURRENT"');
+  });
+
+  test('pulls pinned images instead of building when the release has a compose override', () => {
+    expect(script).toContain('docker-compose -f docker-compose.yml -f docker-compose.release.yml "$@"');
+    expect(script).toContain('compose pull && compose up -d --no-build');
+    expect(script).toContain('compose up -d --build');
+  });
+
+  test('records the release as last good and keeps the retained history', () => {
+    expect(script).toContain(`if bash ${HEALTH_GATE_PATH}; then\n  mkdir -p "$(dirname "$LAST_GOOD_FILE")"\n  echo "$RELEASE_ID" > "$LAST_GOOD_FILE"`);
+    expect(script).toContain('LAST_GOOD_FILE=/data/health/last-good');
+    expect(script).toContain('tail -n +6');
+  });
+
+  test('rolls back to the last good release and fails when the gate fails', () => {
+    expect(script).toMatch(/echo "Rolling back to release \$PREVIOUS"\nactivate "\$PREVIOUS"\n.*\nexit 1\n$/);
+  });
+
+  test('allows time to start and gate both the release and the one it rolls back to', () => {
+    expect(releaseTimeoutSeconds()).toBe(2 * (RELEASE_START_SECONDS + HEALTH_GATE_DEADLINE_SECONDS));
+  });
+});
+
+describe('release script kept releases', () => {
+  const script = renderReleaseScript(5, [], 'kept-releases/dev');
+
+  test('keeps a copy of each healthy release outside the expiring releases/ prefix', () => {
+    expect(script).toContain('aws s3 cp "s3://$BUCKET/releases/$RELEASE_ID/docker_workspace.tar.gz" "s3://$BUCKET/kept-releases/dev/$RELEASE_ID/docker_workspace.tar.gz"');
+    expect(script).toContain('echo "Release $RELEASE_ID is healthy"\n  keep_release || echo');
+    expect(script).toContain('| tr \'\\t\' \'\\n\' | head -n -5 | while read -r key; do');
+  });
+
+  test('restores a release that expired from releases/ from its kept copy', () => {
+    expect(script).toContain('|| aws s3 cp "s3://$BUCKET/kept-releases/dev/$RELEASE_ID/docker_workspace.tar.gz" "$ROOT/$RELEASE_ID/docker_workspace.tar.gz" || exit 1');
+  });
+
+  test('keeps nothing without a prefix', () => {
+    expect(renderReleaseScript(5)).not.toContain('keep_release');
+  });
+});
+
+describe('release script secrets', () => {
+  const script = renderReleaseScript(5, [{ envVar: 'SERVER_API_KEY', secretId: 'health/dev/server-api-key', region: 'us-east-1' }]);
+
+  test('renders every secret into a root-only env file before starting the release', () => {
+    expect(script).toContain('aws secretsmanager get-secret-value --region us-east-1 --secret-id health/dev/server-api-key');
+    expect(script).toContain(`printf '%s=%s\\n' SERVER_API_KEY "$value" >> "$tmp"`);
+    expect(script).toContain(`mv "$tmp" ${SECRETS_ENV_FILE}`);
+    expect(script).toContain('render_secrets || { echo "❌ Could not render secrets for release $RELEASE_ID"; exit 1; }\nactivate "$RELEASE_ID"');
+  });
+
+  test('still writes an empty env file when there are no secrets', () => {
+    expect(renderReleaseScript(5)).toContain(`mv "$tmp" ${SECRETS_ENV_FILE}`);
+  });
+});
+
+describe('installScriptCommand', () => {
+  test('writes the script through base64 and makes it executable', () => {
+    const command = installScriptCommand('/home/ec2-user/bin/test.sh', 'echo "$HOME"\n');
+
+    expect(command).toBe(`mkdir -p /home/ec2-user/bin && echo ${Buffer.from('echo "$HOME"\n').toString('base64')} | base64 -d > /home/ec2-user/bin/test.sh && chmod +x /home/ec2-user/bin/test.sh`);
+  });
+});
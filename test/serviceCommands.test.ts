@@ -0,0 +1,88 @@
+import { ServiceDefinition } from '../lib/config/services';
+import { assembleCommands, assembleRunOrder, packageRunOrder, serviceBuildCommands, sourceDependencies, unbuiltSources } from '../lib/pipeline/serviceCommands';
+
+describe('service registry commands', () => {
+  const services: ServiceDefinition[] = [
+    { name: 'HealthWorkspace', repo: 'HealthWorkspace', branch: 'master', workspaceRoot: true },
+    { name: 'HealthDAO', repo: 'HealthDAO', branch: 'main', build: { tool: 'gradle', command: './gradlew clean build -x test' } },
+    {
+      name: 'HealthBEService',
+      repo: 'HealthBEService',
+      branch: 'main',
+      build: { tool: 'gradle', command: './gradlew clean build -x test' },
+      dependsOn: ['HealthDAO'],
+      containerName: 'healthai',
+      image: { composeService: 'healthai' },
+    },
+    { name: 'HealthIntegrationTests', repo: 'HealthIntegrationTests', branch: 'main' },
+    { name: 'Cassandra', containerName: 'cassandra' },
+  ];
+  const repositoryUri = '1234.dkr.ecr.us-east-1.amazonaws.com/health/healthbeservice';
+
+  test('lays the built libraries out next to the checkout before building', () => {
+    const commands = serviceBuildCommands(services[2], services, { repositoryUri });
+
+    expect(commands).toEqual(expect.arrayContaining([
+      'cp -r "$CODEBUILD_SRC_DIR" /tmp/ws/HealthBEService',
+      'aws s3 cp s3://$DEPLOY_BUCKET_NAME/releases/$RELEASE_ID/parts/HealthDAO.tar.gz - | tar -xz -C /tmp/ws',
+      'cd /tmp/ws/HealthBEService',
+      'chmod +x gradlew && ./gradlew clean build -x test',
+    ]));
+    expect(commands.indexOf('cd /tmp/ws/HealthBEService'))
+      .toBeGreaterThan(commands.indexOf('aws s3 cp s3://$DEPLOY_BUCKET_NAME/releases/$RELEASE_ID/parts/HealthDAO.tar.gz - | tar -xz -C /tmp/ws'));
+  });
+
+  test('builds libraries after nothing and services after their libraries', () => {
+    expect(packageRunOrder(services[1], services)).toBe(1);
+    expect(packageRunOrder(services[2], services)).toBe(2);
+    expect(assembleRunOrder(services)).toBe(3);
+    expect(sourceDependencies(services[2], services)).toEqual([]);
+  });
+
+  test('builds the libraries from source first outside the pipeline', () => {
+    const commands = serviceBuildCommands(services[2], services, { repositoryUri, pipelineBuild: false });
+    const libraryBuild = commands.indexOf('(cd /tmp/ws/HealthDAO && chmod +x gradlew && ./gradlew clean build -x test)');
+
+    expect(commands).toContain('cp -r "$CODEBUILD_SRC_DIR_HealthDAO" /tmp/ws/HealthDAO');
+    expect(libraryBuild).toBeGreaterThan(commands.indexOf('cp -r "$CODEBUILD_SRC_DIR_HealthDAO" /tmp/ws/HealthDAO'));
+    expect(libraryBuild).toBeLessThan(commands.indexOf('chmod +x gradlew && ./gradlew clean build -x test'));
+    expect(commands.join('\n')).not.toContain('parts/HealthDAO.tar.gz');
+  });
+
+  test('pushes release-tagged images with a cached build and records the digest', () => {
+    const commands = serviceBuildCommands(services[2], services, { repositoryUri });
+
+    expect(commands).toContain(`DOCKER_BUILDKIT=1 docker build --build-arg BUILDKIT_INLINE_CACHE=1 --cache-from ${repositoryUri}:latest -t ${repositoryUri}:$RELEASE_ID -t ${repositoryUri}:latest .`);
+    expect(commands).toContain(`docker push ${repositoryUri}:$RELEASE_ID`);
+    expect(commands).toContain('aws s3 cp /tmp/image.digest s3://$DEPLOY_BUCKET_NAME/releases/$RELEASE_ID/images/healthai');
+    expect(commands[commands.length - 1]).toBe('aws s3 cp /tmp/HealthBEService.tar.gz s3://$DEPLOY_BUCKET_NAME/releases/$RELEASE_ID/parts/HealthBEService.tar.gz');
+  });
+
+  test('leaves the latest tag alone outside the pipeline', () => {
+    const commands = serviceBuildCommands(services[2], services, { repositoryUri, pipelineBuild: false });
+
+    expect(commands).toContain(`DOCKER_BUILDKIT=1 docker build --build-arg BUILDKIT_INLINE_CACHE=1 --cache-from ${repositoryUri}:latest -t ${repositoryUri}:$RELEASE_ID .`);
+    expect(commands).not.toContain(`docker push ${repositoryUri}:latest`);
+  });
+
+  test('library builds skip the image steps', () => {
+    const commands = serviceBuildCommands(services[1], services);
+
+    expect(commands.join('\n')).not.toContain('docker');
+  });
+
+  test('assembles built parts, unbuilt sources and the pinned compose override', () => {
+    const commands = assembleCommands(services);
+
+    expect(unbuiltSources(services).map((service) => service.name)).toEqual(['HealthIntegrationTests']);
+    expect(commands).toEqual(expect.arrayContaining([
+      'aws s3 cp s3://$DEPLOY_BUCKET_NAME/releases/$RELEASE_ID/parts/HealthDAO.tar.gz - | tar -xz',
+      'aws s3 cp s3://$DEPLOY_BUCKET_NAME/releases/$RELEASE_ID/parts/HealthBEService.tar.gz - | tar -xz',
+      'cp -r "$CODEBUILD_SRC_DIR_HealthIntegrationTests" HealthIntegrationTests',
+      'echo "services:" > docker-compose.release.yml',
+      `printf '  %s:\\n    image: %s\\n    env_file: /etc/health/app.env\\n' healthai "$(aws s3 cp s3://$DEPLOY_BUCKET_NAME/releases/$RELEASE_ID/images/healthai -)" >> docker-compose.release.yml`,
+      'aws s3 cp docker_workspace.tar.gz s3://$DEPLOY_BUCKET_NAME/releases/$RELEASE_ID/docker_workspace.tar.gz',
+      'echo "$RELEASE_ID" | aws s3 cp - s3://$DEPLOY_BUCKET_NAME/pointers/latest',
+    ]));
+  });
+});